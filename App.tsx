@@ -1,22 +1,80 @@
 import React, { useState, useCallback, useRef, useMemo, useEffect } from 'react';
 import { createPortal } from 'react-dom';
-import { parsePdf, parseTxt, parseDocx } from './services/pdfProcessor';
-import { VocabularyItem, GameMode, GameProgress, ForgeSaveData, SourceFile, Bubble } from './types';
+import { extractVocabulary, ExtractionReport } from './services/pdfProcessor';
+import { parseDocument, documentKind, forEachLimited, isCancelled, MAX_PARALLEL_DOCUMENTS, ParseProgress } from './services/documentParser';
+import { loadWorkspace, saveWorkspace, requestPersistentStorage, StorageQuotaError, saveSourceText, loadSourceText, deleteSourceText, loadSyncState, saveSyncState } from './services/storage';
+import { SyncState, SyncStatus, SyncError, createSyncState, syncWorkspace, trackChanges } from './services/sync';
+import { listProfiles, resolveProfile } from './services/parsingProfiles';
+import { DEFAULT_SCRIPT } from './services/scripts';
+import { structureDefinition } from './services/definitions';
+import { attachSentences, SentencePair } from './services/cloze';
+import { ensureSchedules, applyManualLevel, reviewItem, isDue } from './services/scheduler';
+import { createLogEntry, pruneHistory, remapHistory, AnswerRecord } from './services/reviewLog';
+import { SAVE_FILE_VERSION, SaveFileError, parseSaveFile, readSaveData } from './services/saveSchema';
+import { findWordConflicts, mergeSaveData, WordConflict, ConflictSide, MergeSummary } from './services/saveMerge';
+import { findDuplicateGroups, isLinkedGroup, mergeItems, linkItems, unlinkItem, propagateLinked } from './services/duplicates';
+import { isAnkiPackage, parseAnkiPackage, buildAnkiImport, defaultFieldMapping, exportAnkiPackage, AnkiPackage, AnkiFieldMapping } from './services/anki';
+import { isSpreadsheetFile, readSpreadsheet, guessMapping, buildSpreadsheetImport, vocabularyToCsv, CsvTable, CsvMapping } from './services/csv';
+import { VocabularyItem, GameMode, GameProgress, ForgeSaveData, SourceFile, Bubble, ReviewRating, ReviewLogEntry, StudyDirection, DistractorDifficulty, ParsingProfile, DefinitionScript } from './types';
 import { FlashcardMode } from './components/FlashcardMode';
 import { QuizMode } from './components/QuizMode';
 import { MatchingMode } from './components/MatchingMode';
 import { WordListMode } from './components/WordListMode';
+import { ReviewMode } from './components/ReviewMode';
+import { StatsMode } from './components/StatsMode';
+import { TypingMode } from './components/TypingMode';
+import { ClozeMode } from './components/ClozeMode';
+import { CsvImportDialog } from './components/CsvImportDialog';
+import { AnkiImportDialog } from './components/AnkiImportDialog';
+import { ImportReviewDialog, PendingExtraction, ReviewedImport } from './components/ImportReviewDialog';
+import { DefinitionView } from './components/DefinitionView';
 import { MatrixRain } from './components/MatrixRain';
 import { TimerWidget } from './components/TimerWidget';
-import { FileUp, BookOpen, BrainCircuit, Gamepad2, AlertCircle, Flame, ListChecks, Save, Trash2, CheckSquare, Square, ChevronDown, ChevronUp, ChevronRight, FileText, Pencil, Check, X, FileStack, CopyPlus, Replace, AlertTriangle, Search, Eraser, ArrowDownUp, MoreHorizontal, Target } from 'lucide-react';
+import { WordEditor } from './components/WordEditor';
+import { NewWordDialog } from './components/NewWordDialog';
+import { DuplicatesDialog } from './components/DuplicatesDialog';
+import { ForgeMergeDialog } from './components/ForgeMergeDialog';
+import { UpdatePrompt } from './components/UpdatePrompt';
+import { SyncIndicator } from './components/SyncIndicator';
+import { FileUp, BookOpen, BrainCircuit, Gamepad2, AlertCircle, Flame, ListChecks, Save, Trash2, CheckSquare, Square, ChevronDown, ChevronUp, ChevronRight, FileText, Pencil, Check, X, FileStack, CopyPlus, Replace, AlertTriangle, Search, Eraser, ArrowDownUp, MoreHorizontal, Target, CalendarCheck, BarChart3, Keyboard, FileSpreadsheet, Layers, RefreshCw, TextCursorInput, Plus, Files } from 'lucide-react';
+
+const AUTOSAVE_DELAY_MS = 800;
+// Push this long after the last change; pull at least this often while sync is on
+const SYNC_DELAY_MS = 5000;
+const SYNC_INTERVAL_MS = 60000;
+
+// Documents finished out of the batch, and the page each running one has reached
+interface ImportProgress {
+  done: number;
+  total: number;
+  active: Record<string, ParseProgress | null>;
+}
 
 const App = () => {
   const [mode, setMode] = useState<GameMode>(GameMode.MENU);
   const [vocab, setVocab] = useState<VocabularyItem[]>([]);
   const [sources, setSources] = useState<SourceFile[]>([]); // New: Track source files
   const [loading, setLoading] = useState(false);
+  const [importProgress, setImportProgress] = useState<ImportProgress | null>(null); // Batch document parsing
+  const importAbortRef = useRef<AbortController | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [progress, setProgress] = useState<GameProgress>({});
+  const [history, setHistory] = useState<ReviewLogEntry[]>([]); // Answer log, see ReviewLogEntry
+  const [customProfiles, setCustomProfiles] = useState<ParsingProfile[]>([]);
+
+  // Local Persistence State
+  const [isHydrated, setIsHydrated] = useState(false); // Blocks autosave until the stored workspace is restored
+  // A stored record that failed validation. Autosave and sync stay off until it is exported or discarded,
+  // so the empty workspace shown meanwhile never overwrites it.
+  const [unreadableSave, setUnreadableSave] = useState<unknown>(null);
+  const canPersist = isHydrated && unreadableSave === null;
+  const [isDiscardArmed, setIsDiscardArmed] = useState(false);
+  const [storageWarning, setStorageWarning] = useState<string | null>(null);
+  const [syncStatus, setSyncStatus] = useState<SyncStatus>({ phase: 'off' });
+  const [syncConfig, setSyncConfig] = useState<{ serverUrl: string; deviceId?: string }>({ serverUrl: '' });
+  const syncStateRef = useRef<SyncState | null>(null);
+  const syncSessionRef = useRef(0); // Bumped when sync is turned on or off; results of older rounds are dropped
+  const isSyncingRef = useRef(false);
   
   // Data Versioning to force re-mount of components on load
   const [gameSessionId, setGameSessionId] = useState(0);
@@ -26,6 +84,9 @@ const App = () => {
   const searchInputRef = useRef<HTMLInputElement>(null);
   const [searchCursor, setSearchCursor] = useState(0);
   const [activeSearchMenuId, setActiveSearchMenuId] = useState<string | null>(null);
+  const [editingSearchId, setEditingSearchId] = useState<string | null>(null); // Search result being edited inline
+  const [newWordDraft, setNewWordDraft] = useState<string | null>(null); // Open "new word" dialog, prefilled with this word
+  const [showDuplicates, setShowDuplicates] = useState(false);
 
   // Jump Navigation State
   const [jumpToId, setJumpToId] = useState<string | null>(null);
@@ -51,6 +112,10 @@ const App = () => {
   // Import Conflict Modal State
   const [showImportModal, setShowImportModal] = useState(false);
   const [pendingSaveData, setPendingSaveData] = useState<ForgeSaveData | null>(null);
+  const [pendingMerge, setPendingMerge] = useState<{ incoming: ForgeSaveData; conflicts: WordConflict[] } | null>(null);
+  const [pendingSpreadsheet, setPendingSpreadsheet] = useState<{ file: File; table: CsvTable } | null>(null);
+  const [pendingAnki, setPendingAnki] = useState<{ fileName: string; pkg: AnkiPackage } | null>(null);
+  const [pendingReview, setPendingReview] = useState<PendingExtraction[] | null>(null); // Extracted documents awaiting review
   const [isClosingModal, setIsClosingModal] = useState(false);
   
   // Delete Confirmation State
@@ -72,6 +137,23 @@ const App = () => {
     return vocab.filter(item => !item.sourceId || enabledSourceIds.has(item.sourceId));
   }, [vocab, sources]);
 
+  // Snapshot of the whole workspace in the same shape as an exported .forge file
+  const workspaceSnapshot = useMemo<ForgeSaveData>(() => ({
+      version: SAVE_FILE_VERSION,
+      timestamp: Date.now(),
+      vocab,
+      sources,
+      progress,
+      history,
+      profiles: customProfiles
+  }), [vocab, sources, progress, history, customProfiles]);
+
+  // Cards whose spaced-repetition due date has passed
+  const dueCount = useMemo(() => {
+    const now = Date.now();
+    return activeVocab.filter(item => isDue(item, now)).length;
+  }, [activeVocab]);
+
   const allSourcesEnabled = useMemo(() => sources.length > 0 && sources.every(s => s.enabled), [sources]);
 
   // Reset centering when vocab becomes empty (e.g. clear all)
@@ -79,6 +161,210 @@ const App = () => {
       if (vocab.length === 0) setIsAnimCentered(true);
   }, [vocab.length]);
 
+  // Restore workspace from IndexedDB on startup
+  useEffect(() => {
+      let cancelled = false;
+      let stored: unknown = null;
+      loadWorkspace()
+          .then(record => {
+              if (cancelled || !record) return;
+              stored = record;
+              // Records written by older app versions are migrated like imported files
+              const saved = readSaveData(record);
+              setVocab(ensureSchedules(saved.vocab));
+              setSources(saved.sources);
+              setProgress(saved.progress);
+              setHistory(saved.history || []);
+              setCustomProfiles(saved.profiles || []);
+              setGameSessionId(prev => prev + 1);
+          })
+          .catch(err => {
+              console.error('Failed to restore workspace', err);
+              if (err instanceof SaveFileError && !cancelled) {
+                  setUnreadableSave(stored);
+                  setStorageWarning(`Saved workspace could not be opened: ${err.message} Autosave is paused until you export or discard it.`);
+              } else {
+                  setStorageWarning('Local storage unavailable. Progress will not survive a refresh — use Save to export.');
+              }
+          })
+          .finally(() => {
+              if (!cancelled) setIsHydrated(true);
+          });
+      requestPersistentStorage();
+      return () => { cancelled = true; };
+  }, []);
+
+  // Debounced autosave: level swipes fire many updates in quick succession
+  const latestSnapshotRef = useRef(workspaceSnapshot);
+  latestSnapshotRef.current = workspaceSnapshot;
+
+  const persistWorkspace = useCallback((data: ForgeSaveData): Promise<void> => {
+      return saveWorkspace(data)
+          .then(() => setStorageWarning(null))
+          .catch(err => {
+              console.error('Autosave failed', err);
+              if (err instanceof StorageQuotaError) {
+                  setStorageWarning('Storage full: autosave failed. Export a .forge file (1) or remove unused sources.');
+              } else {
+                  setStorageWarning('Autosave failed. Export a .forge file (1) to keep your progress.');
+              }
+          });
+  }, []);
+
+  useEffect(() => {
+      if (!canPersist) return;
+      const timer = setTimeout(() => persistWorkspace(workspaceSnapshot), AUTOSAVE_DELAY_MS);
+      return () => clearTimeout(timer);
+  }, [workspaceSnapshot, canPersist, persistWorkspace]);
+
+  // Flush pending changes immediately when the page is hidden or closed
+  useEffect(() => {
+      if (!canPersist) return;
+      const flush = () => {
+          if (document.visibilityState !== 'hidden') return;
+          persistWorkspace(latestSnapshotRef.current);
+          // Changes stamped since the last sync round keep their times across a reload
+          if (syncStateRef.current?.serverUrl) {
+              saveSyncState(syncStateRef.current).catch(err => console.error('Failed to save sync state', err));
+          }
+      };
+      document.addEventListener('visibilitychange', flush);
+      window.addEventListener('pagehide', flush);
+      return () => {
+          document.removeEventListener('visibilitychange', flush);
+          window.removeEventListener('pagehide', flush);
+      };
+  }, [canPersist, persistWorkspace]);
+
+  // --- LAN Sync ---
+  useEffect(() => {
+      if (!canPersist) return;
+      loadSyncState()
+          .then(saved => {
+              if (!saved) return;
+              syncStateRef.current = saved;
+              setSyncConfig({ serverUrl: saved.serverUrl, deviceId: saved.deviceId });
+          })
+          .catch(err => console.error('Failed to restore sync state', err));
+  }, [canPersist]);
+
+  const runSync = useCallback(async () => {
+      const state = syncStateRef.current;
+      if (!state || !state.serverUrl || isSyncingRef.current) return;
+      const session = syncSessionRef.current;
+      isSyncingRef.current = true;
+      setSyncStatus(prev => ({ ...prev, phase: 'syncing', message: undefined }));
+      try {
+          // Unpushed changes reach storage first, so their times survive a failed request or a reload
+          await saveSyncState(state);
+          const result = await syncWorkspace(state, () => latestSnapshotRef.current, () => syncStateRef.current || state);
+          // Turned off or pointed at another server while the request was running
+          if (syncSessionRef.current !== session) return;
+          syncStateRef.current = result.state;
+          if (result.workspace) {
+              setVocab(ensureSchedules(result.workspace.vocab));
+              setSources(result.workspace.sources);
+              setProgress(result.workspace.progress);
+              setHistory(result.workspace.history || []);
+              setCustomProfiles(result.workspace.profiles || []);
+          }
+          await saveSyncState(result.state);
+          setSyncStatus({ phase: 'synced', lastSynced: Date.now() });
+      } catch (err: any) {
+          console.error('Sync failed', err);
+          if (syncSessionRef.current !== session) return;
+          // fetch rejects with TypeError when the server cannot be reached, AbortError on timeout
+          const unreachable = err instanceof TypeError || err?.name === 'AbortError';
+          setSyncStatus(prev => ({
+              ...prev,
+              phase: unreachable ? 'offline' : 'error',
+              message: unreachable ? undefined : (err instanceof SyncError ? err.message : `Sync failed: ${err.message || 'Unknown error'}`)
+          }));
+      } finally {
+          isSyncingRef.current = false;
+      }
+  }, []);
+
+  // Stamp changes as they happen, then push shortly after they settle
+  useEffect(() => {
+      if (!canPersist || !syncConfig.serverUrl || !syncStateRef.current) return;
+      syncStateRef.current = trackChanges(syncStateRef.current, workspaceSnapshot);
+      const timer = setTimeout(runSync, SYNC_DELAY_MS);
+      return () => clearTimeout(timer);
+  }, [workspaceSnapshot, canPersist, syncConfig.serverUrl, runSync]);
+
+  // Pull on connect, periodically, and when the app comes back to the foreground
+  useEffect(() => {
+      if (!canPersist || !syncConfig.serverUrl) return;
+      runSync();
+      const interval = setInterval(runSync, SYNC_INTERVAL_MS);
+      const handleVisible = () => {
+          if (document.visibilityState === 'visible') runSync();
+      };
+      document.addEventListener('visibilitychange', handleVisible);
+      return () => {
+          clearInterval(interval);
+          document.removeEventListener('visibilitychange', handleVisible);
+      };
+  }, [canPersist, syncConfig.serverUrl, runSync]);
+
+  // A new server starts from scratch: the first round uploads the whole workspace
+  const handleSyncConnect = useCallback((url: string) => {
+      const state = createSyncState(url, syncStateRef.current?.deviceId);
+      syncStateRef.current = state;
+      syncSessionRef.current++;
+      setSyncConfig({ serverUrl: state.serverUrl, deviceId: state.deviceId });
+      saveSyncState(state).catch(err => console.error('Failed to save sync state', err));
+  }, []);
+
+  const handleSyncDisconnect = useCallback(() => {
+      const state = createSyncState('', syncStateRef.current?.deviceId);
+      syncStateRef.current = state;
+      syncSessionRef.current++;
+      setSyncConfig({ serverUrl: '', deviceId: state.deviceId });
+      setSyncStatus({ phase: 'off' });
+      saveSyncState(state).catch(err => console.error('Failed to save sync state', err));
+  }, []);
+
+  // An app update reloads the page; save first so the debounce window is not lost
+  const flushWorkspace = useCallback(async () => {
+      if (canPersist) await persistWorkspace(latestSnapshotRef.current);
+  }, [canPersist, persistWorkspace]);
+
+  // Keep a copy of the unreadable record (e.g. to repair it by hand), then let autosave replace it
+  const handleExportUnreadable = () => {
+    const blob = new Blob([JSON.stringify(unreadableSave, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `word-forge-unreadable-${new Date().toISOString().split('T')[0]}.forge`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+    setUnreadableSave(null);
+    setStorageWarning(null);
+  };
+
+  // Discarding cannot be undone: the first click only arms the button
+  const handleDiscardUnreadable = () => {
+    if (!isDiscardArmed) {
+      setIsDiscardArmed(true);
+      return;
+    }
+    setUnreadableSave(null);
+    setStorageWarning(null);
+  };
+
+  const unreadableActions = unreadableSave !== null && (
+    <span className="flex gap-2 ml-auto shrink-0">
+      <button onClick={handleExportUnreadable} className="underline hover:text-monkey-text transition-colors">Export it</button>
+      <button onClick={handleDiscardUnreadable} className="underline hover:text-monkey-error transition-colors">
+        {isDiscardArmed ? 'Really discard?' : 'Discard'}
+      </button>
+    </span>
+  );
+
   // Reset search cursor when query changes
   useEffect(() => {
       setSearchCursor(0);
@@ -135,11 +421,66 @@ const App = () => {
   }, []);
 
   const handleLevelUpdate = useCallback((id: string, newLevel: number) => {
-    setVocab(prev => prev.map(item => 
-        item.id === id ? { ...item, level: Math.max(0, Math.min(3, newLevel)) } : item
-    ));
+    // Manual grading re-seeds the schedule so the next due date matches the chosen level
+    setVocab(prev => {
+        const target = prev.find(item => item.id === id);
+        if (!target) return prev;
+        const updated = applyManualLevel(target, newLevel);
+        return propagateLinked(prev.map(item => item.id === id ? updated : item), updated);
+    });
+  }, []);
+
+  // Live vocab for callbacks that need the level at answer time without re-binding
+  const vocabRef = useRef(vocab);
+  vocabRef.current = vocab;
+
+  const appendHistory = useCallback((record: AnswerRecord) => {
+    setHistory(prev => [...prev, createLogEntry(record)]);
   }, []);
 
+  // Recognition answers (quiz / matching) do not change the level themselves; modes that do pass levelAfter
+  const recordAnswer = useCallback((answerMode: GameMode, wordId: string, correct: boolean, responseMs: number, levelAfter?: number, confusedWithId?: string) => {
+    const item = vocabRef.current.find(v => v.id === wordId);
+    if (!item) return;
+    appendHistory({
+      wordId, mode: answerMode, correct, responseMs,
+      levelBefore: item.level, levelAfter: levelAfter ?? item.level,
+      ...(confusedWithId && confusedWithId !== wordId ? { confusedWithId } : {})
+    });
+  }, [appendHistory]);
+
+  const recordQuizAnswer = useCallback((wordId: string, correct: boolean, responseMs: number, confusedWithId?: string) => {
+    recordAnswer(GameMode.QUIZ, wordId, correct, responseMs, undefined, confusedWithId);
+  }, [recordAnswer]);
+
+  const recordMatchingAnswer = useCallback((wordId: string, correct: boolean, responseMs: number, confusedWithId?: string) => {
+    recordAnswer(GameMode.MATCHING, wordId, correct, responseMs, undefined, confusedWithId);
+  }, [recordAnswer]);
+
+  const recordTypingAnswer = useCallback((wordId: string, correct: boolean, responseMs: number, levelAfter?: number) => {
+    recordAnswer(GameMode.TYPING, wordId, correct, responseMs, levelAfter);
+  }, [recordAnswer]);
+
+  const recordClozeAnswer = useCallback((wordId: string, correct: boolean, responseMs: number, levelAfter?: number, confusedWithId?: string) => {
+    recordAnswer(GameMode.CLOZE, wordId, correct, responseMs, levelAfter, confusedWithId);
+  }, [recordAnswer]);
+
+  const handleReview = useCallback((id: string, rating: ReviewRating, responseMs: number) => {
+    const item = vocabRef.current.find(v => v.id === id);
+    if (!item) return;
+    const reviewed = reviewItem(item, rating);
+    setVocab(prev => propagateLinked(prev.map(v => v.id === id ? reviewed : v), reviewed));
+    appendHistory({
+        wordId: id,
+        mode: GameMode.REVIEW,
+        correct: rating !== 'again',
+        responseMs,
+        levelBefore: item.level,
+        levelAfter: reviewed.level,
+        rating
+    });
+  }, [appendHistory]);
+
   // --- Keyboard Handling for Menu & Search ---
   const getMenuCols = () => {
       if (typeof window === 'undefined') return 1;
@@ -152,6 +493,9 @@ const App = () => {
       if (mode !== GameMode.MENU) return;
 
       const handleKeyDown = (e: KeyboardEvent) => {
+          // The import mapping dialogs and the word editor handle their own keys
+          if (pendingSpreadsheet || pendingAnki || pendingReview || editingSearchId || newWordDraft !== null || showDuplicates || pendingMerge) return;
+
           // 1. Search Navigation
           if (searchQuery && searchResults.length > 0) {
              if (e.code === 'ArrowDown') {
@@ -222,6 +566,20 @@ const App = () => {
               return;
           }
 
+          // Export CSV
+          if (e.key === '3') {
+              e.preventDefault();
+              handleExportCsv();
+              return;
+          }
+
+          // Export Anki deck
+          if (e.key === '4') {
+              e.preventDefault();
+              handleExportAnki();
+              return;
+          }
+
           // Empty State Interactions
           if (vocab.length === 0) {
              if (e.code === 'Space' || e.code === 'Enter') {
@@ -234,7 +592,7 @@ const App = () => {
           // 4. Main Menu Grid Navigation
           // (only if no active search results or search is empty)
           if (!searchQuery) {
-              const menuItemsCount = 4;
+              const menuItemsCount = 8;
               const cols = getMenuCols();
 
               if (e.code === 'ArrowRight') {
@@ -255,6 +613,10 @@ const App = () => {
                   if (menuCursor === 1) setMode(GameMode.QUIZ);
                   if (menuCursor === 2) setMode(GameMode.MATCHING);
                   if (menuCursor === 3) setMode(GameMode.WORD_LIST);
+                  if (menuCursor === 4) setMode(GameMode.REVIEW);
+                  if (menuCursor === 5) setMode(GameMode.STATS);
+                  if (menuCursor === 6) setMode(GameMode.TYPING);
+                  if (menuCursor === 7) setMode(GameMode.CLOZE);
               } else if (e.code === 'Space') {
                  e.preventDefault();
                  searchInputRef.current?.focus();
@@ -264,7 +626,7 @@ const App = () => {
 
       window.addEventListener('keydown', handleKeyDown);
       return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [mode, searchQuery, searchResults, searchCursor, menuCursor, handleLevelUpdate, isSourceManagerOpen, isSourceManagerClosing, sources, sourceListCursor]);
+  }, [mode, searchQuery, searchResults, searchCursor, menuCursor, handleLevelUpdate, isSourceManagerOpen, isSourceManagerClosing, sources, sourceListCursor, pendingSpreadsheet, pendingAnki, pendingReview, activeVocab, editingSearchId, newWordDraft, showDuplicates, pendingMerge]);
 
   // Scroll search item into view
   useEffect(() => {
@@ -311,24 +673,48 @@ const App = () => {
         const lowerName = file.name.toLowerCase();
         if (lowerName.endsWith('.forge') || lowerName.endsWith('.json')) {
             try {
-                const text = await file.text();
-                const saveData = JSON.parse(text) as ForgeSaveData;
-                if (saveData.vocab && Array.isArray(saveData.vocab)) {
-                    // If we have existing data, prompt for Merge vs Overwrite
-                    if (vocab.length > 0) {
-                        setPendingSaveData(saveData);
-                        setShowImportModal(true);
-                        setIsClosingModal(false);
-                    } else {
-                        // Empty state: direct load
-                        loadSaveData(saveData, false);
-                    }
+                // Migrated to the current version and validated; throws SaveFileError otherwise
+                const saveData = parseSaveFile(await file.text());
+                // If we have existing data, prompt for Merge vs Overwrite
+                if (vocab.length > 0) {
+                    setPendingSaveData(saveData);
+                    setShowImportModal(true);
+                    setIsClosingModal(false);
                 } else {
-                    throw new Error("Invalid save file format");
+                    // Empty state: direct load
+                    loadSaveData(saveData, false);
                 }
             } catch (err: any) {
                 console.error(err);
-                setError("Failed to parse save file. The file might be corrupted.");
+                setError(err instanceof SaveFileError ? err.message : "Failed to parse save file. The file might be corrupted.");
+            }
+            setLoading(false);
+            return;
+        }
+
+        // A single spreadsheet goes through the column mapping dialog
+        if (isSpreadsheetFile(file.name)) {
+            try {
+                const table = await readSpreadsheet(file);
+                if (table.rows.length === 0) throw new Error("Empty spreadsheet");
+                setPendingSpreadsheet({ file, table });
+            } catch (err: any) {
+                console.error(err);
+                setError(`Failed to read ${file.name}: ${err.message || 'Parse error'}`);
+            }
+            setLoading(false);
+            return;
+        }
+
+        // A single Anki package goes through the field mapping dialog
+        if (isAnkiPackage(file.name)) {
+            try {
+                const pkg = await parseAnkiPackage(file);
+                if (pkg.notes.length === 0) throw new Error("No notes in package");
+                setPendingAnki({ fileName: file.name, pkg });
+            } catch (err: any) {
+                console.error(err);
+                setError(`Failed to read ${file.name}: ${err.message || 'Parse error'}`);
             }
             setLoading(false);
             return;
@@ -336,80 +722,110 @@ const App = () => {
     }
 
     // Batch Document Processing
-    const newSources: SourceFile[] = [];
-    const newVocabItems: VocabularyItem[] = [];
+    // Results are slotted by file index so parallel parsing keeps the selection order
+    const sourceSlots: SourceFile[][] = [];
+    const vocabSlots: VocabularyItem[][] = [];
+    const extractionSlots: (PendingExtraction | undefined)[] = [];
     const errorMessages: string[] = [];
 
+    const batch = files.filter(file => !/\.(forge|json)$/i.test(file.name)); // Restore files only load on their own
+    const controller = new AbortController();
+    importAbortRef.current = controller;
+    setImportProgress({ done: 0, total: batch.length, active: {} });
+
+    const setActive = (fileName: string, progress: ParseProgress | null | undefined) => {
+        setImportProgress(prev => {
+            if (!prev) return prev;
+            const active = { ...prev.active };
+            if (progress === undefined) delete active[fileName];
+            else active[fileName] = progress;
+            return { ...prev, active, done: progress === undefined ? prev.done + 1 : prev.done };
+        });
+    };
+
     try {
-        for (const file of files) {
+        await forEachLimited(batch, MAX_PARALLEL_DOCUMENTS, async (file, index) => {
             const fileName = file.name;
-            const lowerName = fileName.toLowerCase();
-            const fileType = file.type;
-            
-            // Skip .forge/.json in batch mode to avoid confusion, or handle as error
-            if (lowerName.endsWith('.forge') || lowerName.endsWith('.json')) {
-                continue; 
-            }
+            setActive(fileName, null);
 
             try {
-                let extracted: VocabularyItem[] = [];
-
-                if (fileType === 'application/pdf' || lowerName.endsWith('.pdf')) {
-                    extracted = await parsePdf(file);
-                } else if (fileType === 'text/plain' || lowerName.endsWith('.txt')) {
-                    extracted = await parseTxt(file);
-                } else if (
-                    fileType === 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' || 
-                    lowerName.endsWith('.docx')
-                ) {
-                    extracted = await parseDocx(file);
-                } else {
+                // Spreadsheets in a batch use the guessed column mapping
+                if (isSpreadsheetFile(fileName)) {
+                    const table = await readSpreadsheet(file);
+                    const imported = buildSpreadsheetImport(table.rows, guessMapping(table.rows), fileName, generateId);
+                    if (imported.vocab.length === 0) {
+                        errorMessages.push(`${fileName}: No rows with a word and definition`);
+                        return;
+                    }
+                    sourceSlots[index] = imported.sources;
+                    vocabSlots[index] = ensureSchedules(imported.vocab);
+                    return;
+                }
+
+                // Anki packages in a batch map the first two fields of each note type
+                if (isAnkiPackage(fileName)) {
+                    const pkg = await parseAnkiPackage(file);
+                    const imported = buildAnkiImport(pkg, defaultFieldMapping(pkg), generateId);
+                    if (imported.vocab.length === 0) {
+                        errorMessages.push(`${fileName}: No notes with a word and definition`);
+                        return;
+                    }
+                    sourceSlots[index] = imported.sources;
+                    vocabSlots[index] = ensureSchedules(imported.vocab);
+                    return;
+                }
+
+                if (!documentKind(file)) {
                     errorMessages.push(`${fileName}: Unsupported type`);
-                    continue;
+                    return;
                 }
 
-                if (extracted.length < 5) {
-                    errorMessages.push(`${fileName}: Too few words found`);
-                    continue;
+                const report = await parseDocument(file, {
+                    onProgress: progress => setActive(fileName, progress),
+                    signal: controller.signal
+                });
+
+                if (report.entries.length === 0 && report.skipped.length === 0) {
+                    errorMessages.push(`${fileName}: No vocabulary found`);
+                    return;
                 }
 
-                // Create new Source
-                const newSourceId = generateId();
-                const newSource: SourceFile = {
-                    id: newSourceId,
-                    name: fileName,
-                    enabled: true,
-                    dateAdded: Date.now(),
-                    wordCount: extracted.length
-                };
-
-                // Tag new words with sourceId
-                const taggedWords = extracted.map(item => ({
-                    ...item,
-                    sourceId: newSourceId
-                }));
-
-                newSources.push(newSource);
-                newVocabItems.push(...taggedWords);
+                // Documents are held for the review screen before they become sources
+                extractionSlots[index] = { fileName, report };
 
             } catch (err: any) {
+                if (isCancelled(err)) return;
                 console.error(`Error parsing ${fileName}:`, err);
                 errorMessages.push(`${fileName}: ${err.message || 'Parse error'}`);
+            } finally {
+                setActive(fileName, undefined);
             }
+        }, controller.signal);
+
+        if (controller.signal.aborted) {
+            setError("Import cancelled.");
+            return;
         }
 
+        const newSources = sourceSlots.filter(Boolean).flat();
+        const newVocabItems = vocabSlots.filter(Boolean).flat();
+        const extractions = extractionSlots.filter((e): e is PendingExtraction => !!e);
+
         // Batch Update State
         if (newSources.length > 0) {
             setSources(prev => [...prev, ...newSources]);
             setVocab(prev => [...prev, ...newVocabItems]);
             setGameSessionId(prev => prev + 1); // FORCE UPDATE to refresh components
         }
+        if (extractions.length > 0) {
+            setPendingReview(extractions);
+        }
 
         // Handle Errors
         if (errorMessages.length > 0) {
             // If we successfully imported some files but failed others
-            if (newSources.length > 0) {
-                setError(`Imported ${newSources.length} files. Failed: ${errorMessages.slice(0, 2).join(', ')}${errorMessages.length > 2 ? '...' : ''}`);
+            if (newSources.length > 0 || extractions.length > 0) {
+                setError(`Imported ${newSources.length + extractions.length} files. Failed: ${errorMessages.slice(0, 2).join(', ')}${errorMessages.length > 2 ? '...' : ''}`);
             } else {
                 setError(`All imports failed: ${errorMessages.slice(0, 2).join(', ')}`);
             }
@@ -419,55 +835,165 @@ const App = () => {
         console.error(err);
         setError("Unexpected error during batch upload.");
     } finally {
+        importAbortRef.current = null;
+        setImportProgress(null);
         setLoading(false);
     }
   };
 
-  const loadSaveData = (saveData: ForgeSaveData, isMerge: boolean) => {
-      // 1. Prepare Incoming Sources
-      let incomingSources = saveData.sources || [];
-      let incomingVocab = saveData.vocab;
-
-      // Migration for legacy save files (no sources)
-      if (incomingSources.length === 0 && incomingVocab.length > 0) {
-          const legacySource: SourceFile = {
-              id: 'legacy_import_' + Date.now(),
-              name: 'Imported Data',
+  const handleSpreadsheetImport = (table: CsvTable, mapping: CsvMapping) => {
+      const file = pendingSpreadsheet?.file;
+      setPendingSpreadsheet(null);
+      if (!file) return;
+
+      try {
+          const imported = buildSpreadsheetImport(table.rows, mapping, file.name, generateId);
+          if (imported.vocab.length === 0) {
+              setError(`${file.name}: No rows with a word and definition`);
+              return;
+          }
+          setSources(prev => [...prev, ...imported.sources]);
+          setVocab(prev => [...prev, ...ensureSchedules(imported.vocab)]);
+          setGameSessionId(prev => prev + 1);
+      } catch (err: any) {
+          console.error(err);
+          setError(`${file.name}: ${err.message || 'Import error'}`);
+      }
+  };
+
+  // Commit reviewed documents: one new source per file, or a replacement word list for a re-parsed source
+  const handleReviewCommit = (imports: ReviewedImport[]) => {
+      setPendingReview(null);
+
+      const knownProfileIds = new Set(listProfiles(customProfiles).map(p => p.id));
+      const newSources: SourceFile[] = [];
+      const newVocabItems: VocabularyItem[] = [];
+      for (const { fileName, items, text, profileId, script, targetSourceId } of imports) {
+          // Rules that were applied but never saved cannot be re-applied later
+          const storedProfileId = knownProfileIds.has(profileId) ? profileId : undefined;
+
+          if (targetSourceId) {
+              replaceSourceWords(targetSourceId, items, storedProfileId, script);
+              continue;
+          }
+
+          const newSourceId = generateId();
+          newSources.push({
+              id: newSourceId,
+              name: fileName,
               enabled: true,
               dateAdded: Date.now(),
-              wordCount: incomingVocab.length
-          };
-          incomingSources = [legacySource];
-          incomingVocab = incomingVocab.map(v => ({ ...v, sourceId: legacySource.id }));
+              wordCount: items.length,
+              profileId: storedProfileId,
+              definitionScript: script
+          });
+          // Tag new words with sourceId and give them a fresh schedule
+          newVocabItems.push(...ensureSchedules(items.map(item => ({ ...item, sourceId: newSourceId }))));
+          saveSourceText(newSourceId, text).catch(err => console.error('Failed to store source text', err));
       }
 
-      if (isMerge) {
-          // MERGE LOGIC
-          // 1. Merge Sources (Prevent ID collisions, although IDs should be unique)
-          const existingSourceIds = new Set(sources.map(s => s.id));
-          const newSources = incomingSources.filter(s => !existingSourceIds.has(s.id));
-          
-          // 2. Merge Vocab
-          const existingVocabIds = new Set(vocab.map(v => v.id));
-          const newVocab = incomingVocab.filter(v => !existingVocabIds.has(v.id));
-
+      if (newSources.length > 0) {
           setSources(prev => [...prev, ...newSources]);
-          setVocab(prev => [...prev, ...newVocab]);
-          
-          // Note: We currently DO NOT merge progress (quiz scores etc) because it's complex.
-          // We keep the current session's progress.
-          if (newSources.length > 0 || newVocab.length > 0) {
-              setGameSessionId(prev => prev + 1); // Refresh if new data added
+          setVocab(prev => [...prev, ...newVocabItems]);
+      }
+      setGameSessionId(prev => prev + 1);
+  };
+
+  // Swap a source's words for a re-parsed list. Words that survive (same spelling) keep their id,
+  // level and schedule, so progress and history are not lost.
+  const replaceSourceWords = (sourceId: string, items: VocabularyItem[], profileId?: string, definitionScript?: DefinitionScript) => {
+      const previous = new Map(vocab.filter(v => v.sourceId === sourceId).map(v => [v.word.toLowerCase(), v]));
+      const replacement = ensureSchedules(items.map(item => {
+          const existing = previous.get(item.word.toLowerCase());
+          return existing
+              ? structureDefinition({ ...existing, word: item.word, definition: item.definition, examples: item.examples, originalIndex: item.originalIndex })
+              : { ...item, sourceId };
+      }));
+
+      // Keep the source's block where it was in the list
+      const firstIndex = vocab.findIndex(v => v.sourceId === sourceId);
+      const others = vocab.filter(v => v.sourceId !== sourceId);
+      const insertAt = firstIndex === -1 ? others.length : vocab.slice(0, firstIndex).filter(v => v.sourceId !== sourceId).length;
+      const nextVocab = [...others.slice(0, insertAt), ...replacement, ...others.slice(insertAt)];
+
+      setVocab(nextVocab);
+      setSources(prev => prev.map(s => s.id === sourceId ? { ...s, wordCount: replacement.length, profileId, definitionScript } : s));
+      setHistory(prev => pruneHistory(prev, new Set(nextVocab.map(v => v.id))));
+  };
+
+  const handleReparseSource = async (sourceId: string) => {
+      const source = sources.find(s => s.id === sourceId);
+      if (!source) return;
+      try {
+          const text = await loadSourceText(sourceId);
+          if (text === null) {
+              setError(`${source.name}: No stored document text. Only PDF, TXT, DOCX and image files imported on this device can be re-parsed.`);
+              return;
           }
+          // Sources from before definition scripts were stored are Chinese
+          const report = extractVocabulary(text, resolveProfile(source.profileId, customProfiles), source.definitionScript || DEFAULT_SCRIPT);
+          setPendingReview([{ fileName: source.name, report, targetSourceId: sourceId }]);
+      } catch (err: any) {
+          console.error(err);
+          setError(`${source.name}: ${err.message || 'Failed to load source text'}`);
+      }
+  };
+
+  const handleSaveProfile = (profile: ParsingProfile) => {
+      setCustomProfiles(prev => prev.some(p => p.id === profile.id)
+          ? prev.map(p => p.id === profile.id ? profile : p)
+          : [...prev, profile]);
+  };
+
+  const handleDeleteProfile = (id: string) => {
+      setCustomProfiles(prev => prev.filter(p => p.id !== id));
+  };
+
+  const handleAnkiImport = (mapping: AnkiFieldMapping) => {
+      const pending = pendingAnki;
+      setPendingAnki(null);
+      if (!pending) return;
+
+      const imported = buildAnkiImport(pending.pkg, mapping, generateId);
+      if (imported.vocab.length === 0) {
+          setError(`${pending.fileName}: No notes with a word and definition`);
+          return;
+      }
+      setSources(prev => [...prev, ...imported.sources]);
+      setVocab(prev => [...prev, ...ensureSchedules(imported.vocab)]);
+      setGameSessionId(prev => prev + 1);
+  };
+
+  const loadSaveData = (saveData: ForgeSaveData, isMerge: boolean) => {
+      // saveData is already at the current version (legacy saves got their source in migration)
+      if (isMerge) {
+          // MERGE LOGIC: words that differ on both sides are resolved in the merge dialog
+          // Conflicts are found before seeding schedules, so a legacy copy never looks freshly studied
+          setPendingMerge({ incoming: saveData, conflicts: findWordConflicts(latestSnapshotRef.current, saveData) });
       } else {
           // OVERWRITE LOGIC
-          setVocab(incomingVocab);
-          setSources(incomingSources);
+          // Older saves carry only manual levels: seed scheduling state from them
+          setVocab(ensureSchedules(saveData.vocab));
+          setSources(saveData.sources);
           setProgress(saveData.progress || {});
+          setHistory(saveData.history || []);
+          setCustomProfiles(saveData.profiles || []);
           setGameSessionId(prev => prev + 1); // FORCE UPDATE to re-mount game components with new progress
       }
   };
 
+  // Apply the merge with the conflict choices made in the dialog; returns what changed
+  const handleMergeForge = (choices: Map<string, ConflictSide>): MergeSummary => {
+      const { data, summary } = mergeSaveData(latestSnapshotRef.current, pendingMerge!.incoming, choices);
+      setVocab(ensureSchedules(data.vocab));
+      setSources(data.sources);
+      setProgress(data.progress);
+      setHistory(data.history || []);
+      setCustomProfiles(data.profiles || []);
+      setGameSessionId(prev => prev + 1); // Re-mount game components with the merged progress
+      return summary;
+  };
+
   const handleImportChoice = (choice: 'merge' | 'overwrite') => {
       if (pendingSaveData) {
           loadSaveData(pendingSaveData, choice === 'merge');
@@ -487,13 +1013,7 @@ const App = () => {
   const handleExportProgress = () => {
     if (vocab.length === 0) return;
     
-    const data: ForgeSaveData = {
-      version: '1.1', // Bump version for source support
-      timestamp: Date.now(),
-      vocab,
-      sources,
-      progress
-    };
+    const data: ForgeSaveData = { ...workspaceSnapshot, timestamp: Date.now() };
 
     const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
     const url = URL.createObjectURL(blob);
@@ -506,6 +1026,41 @@ const App = () => {
     URL.revokeObjectURL(url);
   };
 
+  // Active words only, so the export matches what is being studied
+  const handleExportCsv = () => {
+    if (activeVocab.length === 0) return;
+
+    const blob = new Blob([vocabularyToCsv(activeVocab, getSourceName)], { type: 'text/csv;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `word-forge-${new Date().toISOString().split('T')[0]}.csv`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  const handleExportAnki = async () => {
+    if (activeVocab.length === 0) return;
+
+    try {
+      const usedSourceIds = new Set(activeVocab.map(item => item.sourceId));
+      const blob = await exportAnkiPackage(activeVocab, sources.filter(s => usedSourceIds.has(s.id)));
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `word-forge-${new Date().toISOString().split('T')[0]}.apkg`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+    } catch (err: any) {
+      console.error(err);
+      setError(`Anki export failed: ${err.message || 'Unknown error'}`);
+    }
+  };
+
   // --- Source Management ---
   const toggleSourceManager = () => {
       if (isSourceManagerOpen) {
@@ -547,7 +1102,11 @@ const App = () => {
           // 1. Remove from sources
           setSources(prev => prev.filter(s => s.id !== sourceToDelete));
           // 2. Remove words belonging to this source
-          setVocab(prev => prev.filter(v => v.sourceId !== sourceToDelete));
+          const remaining = vocab.filter(v => v.sourceId !== sourceToDelete);
+          setVocab(remaining);
+          // 3. Drop their answer history and stored text
+          setHistory(prev => pruneHistory(prev, new Set(remaining.map(v => v.id))));
+          deleteSourceText(sourceToDelete).catch(err => console.error('Failed to delete source text', err));
           setSourceToDelete(null);
       }
       closeDeleteModal();
@@ -606,11 +1165,11 @@ const App = () => {
   }, []);
 
   // -- Persistence Handlers --
-  const saveFlashcardProgress = useCallback((index: number, activeLevels: number[]) => {
-    setProgress(prev => ({ ...prev, flashcard: { index, activeLevels } }));
+  const saveFlashcardProgress = useCallback((index: number, activeLevels: number[], direction: StudyDirection) => {
+    setProgress(prev => ({ ...prev, flashcard: { index, activeLevels, direction } }));
   }, []);
 
-  const saveQuizProgress = useCallback((state: { currentIndex: number; score: number; answeredState: Record<number, number | null>; activeLevels: number[] }) => {
+  const saveQuizProgress = useCallback((state: { currentIndex: number; score: number; answeredState: Record<number, number | null>; activeLevels: number[]; direction: StudyDirection; difficulty: DistractorDifficulty }) => {
     setProgress(prev => ({ ...prev, quiz: state }));
   }, []);
 
@@ -620,8 +1179,102 @@ const App = () => {
   }, []);
 
 
+  const saveTypingProgress = useCallback((state: { index: number; activeLevels: number[] }) => {
+    setProgress(prev => ({ ...prev, typing: state }));
+  }, []);
+
+  const saveClozeProgress = useCallback((state: { index: number; activeLevels: number[]; useChoices: boolean }) => {
+    setProgress(prev => ({ ...prev, cloze: state }));
+  }, []);
+
+  const handleAddExample = useCallback((id: string, sentence: string) => {
+    setVocab(prev => prev.map(item => item.id === id ? { ...item, examples: [...(item.examples || []), sentence] } : item));
+  }, []);
+
+  // --- Vocabulary Editor ---
+  // Fix a word or definition; id, level and schedule are kept so progress survives the edit
+  const handleEditWord = useCallback((id: string, word: string, definition: string) => {
+    setVocab(prev => prev.map(item => item.id === id ? structureDefinition({ ...item, word, definition }) : item));
+  }, []);
+
+  const handleDeleteWord = useCallback((id: string) => {
+    const item = vocabRef.current.find(v => v.id === id);
+    if (!item) return;
+    setVocab(prev => prev.filter(v => v.id !== id));
+    setHistory(prev => prev.filter(entry => entry.wordId !== id));
+    if (item.sourceId) {
+        setSources(prev => prev.map(s => s.id === item.sourceId ? { ...s, wordCount: Math.max(0, s.wordCount - 1) } : s));
+    }
+  }, []);
+
+  // Without a sourceId the word goes to the "My words" source, created on first use
+  const handleAddWord = useCallback((word: string, definition: string, sourceId?: string) => {
+    const manualId = sources.find(s => s.manual)?.id;
+    const targetId = sourceId || manualId || generateId();
+    if (!sourceId && !manualId) {
+        setSources(prev => [...prev, { id: targetId, name: 'My words', enabled: true, dateAdded: Date.now(), wordCount: 0, manual: true }]);
+    }
+    const sourceItems = vocabRef.current.filter(v => v.sourceId === targetId);
+    const newItem: VocabularyItem = structureDefinition({
+        id: generateId(),
+        sourceId: targetId,
+        word,
+        definition,
+        level: 0,
+        originalIndex: sourceItems.reduce((max, v) => Math.max(max, v.originalIndex + 1), 0)
+    });
+    setVocab(prev => [...prev, ...ensureSchedules([newItem])]);
+    setSources(prev => prev.map(s => s.id === targetId ? { ...s, wordCount: s.wordCount + 1 } : s));
+  }, [sources]);
+
+  // --- Duplicates Across Sources ---
+  const duplicateGroups = useMemo(() => findDuplicateGroups(vocab), [vocab]);
+  // Linked groups are resolved: they stay listed in the dialog but no longer count
+  const unresolvedDuplicates = useMemo(() => duplicateGroups.filter(group => !isLinkedGroup(group)), [duplicateGroups]);
+
+  // Fold groups of duplicates (lists of ids) into one item each; history follows the surviving id
+  const mergeDuplicateGroups = useCallback((groups: string[][]) => {
+    const current = vocabRef.current;
+    const replacements = new Map<string, VocabularyItem>();
+    const idMap = new Map<string, string>();
+    for (const ids of groups) {
+        const items = current.filter(v => ids.includes(v.id));
+        if (items.length < 2) continue;
+        const { merged, removedIds } = mergeItems(items);
+        replacements.set(merged.id, merged);
+        for (const removedId of removedIds) idMap.set(removedId, merged.id);
+    }
+    if (idMap.size === 0) return;
+
+    const nextVocab = current.filter(v => !idMap.has(v.id)).map(v => replacements.get(v.id) || v);
+    const counts = new Map<string, number>();
+    for (const v of nextVocab) if (v.sourceId) counts.set(v.sourceId, (counts.get(v.sourceId) || 0) + 1);
+
+    setVocab(nextVocab);
+    setSources(prev => prev.map(s => ({ ...s, wordCount: counts.get(s.id) || 0 })));
+    setHistory(prev => remapHistory(prev, idMap));
+  }, []);
+
+  const handleLinkDuplicates = useCallback((ids: string[]) => {
+    setVocab(prev => {
+        const linked = new Map(linkItems(prev.filter(v => ids.includes(v.id))).map(v => [v.id, v]));
+        return prev.map(v => linked.get(v.id) || v);
+    });
+  }, []);
+
+  const handleUnlinkWord = useCallback((id: string) => {
+    setVocab(prev => prev.map(v => v.id === id ? unlinkItem(v) : v));
+  }, []);
+
+  // Bulk word -> sentence import; sentences go to every word with the same spelling
+  const handleImportSentences = useCallback((pairs: SentencePair[]) => {
+    const result = attachSentences(vocabRef.current, pairs);
+    setVocab(result.vocab);
+    return { added: result.added, unmatched: result.unmatched.length };
+  }, []);
+
   const handleResetLevels = useCallback((id: string, newLevel: number) => {
-    setVocab(prev => prev.map(item => ({ ...item, level: 0 })));
+    setVocab(prev => prev.map(item => applyManualLevel(item, 0)));
   }, []);
 
   const handleShuffle = useCallback(() => {
@@ -684,9 +1337,9 @@ const App = () => {
   };
 
   const renderContent = () => {
-    if (loading) {
+    if (loading || !isHydrated) {
       return (
-        <div className="flex flex-col items-center justify-center h-full animate-pulse z-10">
+        <div className={`flex flex-col items-center justify-center h-full z-10 ${importProgress ? '' : 'animate-pulse'}`}>
            <div className="relative">
              <div className="w-16 h-16 border-4 border-monkey-sub/30 rounded-full"></div>
              <div className="absolute top-0 left-0 w-16 h-16 border-4 border-monkey-main border-t-transparent rounded-full animate-spin"></div>
@@ -696,6 +1349,22 @@ const App = () => {
              </div>
            </div>
            <p className="text-monkey-main font-mono mt-4 tracking-widest">FORGING...</p>
+           {importProgress && (
+             <div className="flex flex-col items-center mt-3 gap-1 font-mono text-xs text-monkey-sub">
+               {importProgress.total > 1 && <span>{importProgress.done} / {importProgress.total} files</span>}
+               {Object.entries(importProgress.active).map(([fileName, progress]) => (
+                 <span key={fileName} className="truncate max-w-xs">
+                   {fileName}{progress && ` · ${progress.stage === 'ocr' ? 'OCR page' : 'page'} ${progress.page} / ${progress.total}`}
+                 </span>
+               ))}
+               <button
+                 onClick={() => importAbortRef.current?.abort()}
+                 className="mt-2 flex items-center gap-1 px-3 py-1 rounded border border-monkey-sub/30 hover:border-monkey-error hover:text-monkey-error transition-colors"
+               >
+                 <X size={12} /> Cancel
+               </button>
+             </div>
+           )}
         </div>
       );
     }
@@ -706,6 +1375,7 @@ const App = () => {
                   data={activeVocab} 
                   initialIndex={progress.flashcard?.index}
                   initialActiveLevels={progress.flashcard?.activeLevels}
+                  initialDirection={progress.flashcard?.direction}
                   jumpToId={jumpToId}
                   onExit={resetGame} 
                   onUpdateLevel={handleLevelUpdate} 
@@ -727,6 +1397,8 @@ const App = () => {
                   onSaveProgress={saveQuizProgress}
                   onGetSourceName={getSourceName}
                   onUpdateLevel={handleLevelUpdate}
+                  onRecordAnswer={recordQuizAnswer}
+                  history={history}
                />;
     }
     if (mode === GameMode.MATCHING) {
@@ -742,9 +1414,60 @@ const App = () => {
                   onRestore={handleRestore} 
                   onSaveProgress={saveMatchingProgress}
                   onUpdateLevel={handleLevelUpdate}
+                  onRecordAnswer={recordMatchingAnswer}
+               />;
+    }
+    if (mode === GameMode.REVIEW) {
+        return <ReviewMode 
+                  key={`review-${gameSessionId}`}
+                  data={activeVocab} 
+                  onExit={resetGame} 
+                  onReview={handleReview}
+                  onGetSourceName={getSourceName}
+               />;
+    }
+    if (mode === GameMode.TYPING) {
+        return <TypingMode 
+                  key={`typing-${gameSessionId}`}
+                  data={activeVocab} 
+                  initialState={progress.typing}
+                  jumpToId={jumpToId}
+                  onExit={resetGame} 
+                  onShuffle={handleShuffle} 
+                  onRestore={handleRestore}
+                  onSaveProgress={saveTypingProgress}
+                  onGetSourceName={getSourceName}
+                  onUpdateLevel={handleLevelUpdate}
+                  onRecordAnswer={recordTypingAnswer}
                />;
     }
-    if (mode === GameMode.WORD_LIST) return <WordListMode key={`wordlist-${gameSessionId}`} data={activeVocab} jumpToId={jumpToId} onExit={resetGame} onUpdateLevel={handleLevelUpdate} onResetLevels={() => handleResetLevels('', 0)} onShuffle={handleShuffle} onRestore={handleRestore} onGetSourceName={getSourceName} />;
+    if (mode === GameMode.CLOZE) {
+        return <ClozeMode 
+                  key={`cloze-${gameSessionId}`}
+                  data={activeVocab} 
+                  initialState={progress.cloze}
+                  jumpToId={jumpToId}
+                  onExit={resetGame} 
+                  onShuffle={handleShuffle} 
+                  onRestore={handleRestore}
+                  onSaveProgress={saveClozeProgress}
+                  onGetSourceName={getSourceName}
+                  onUpdateLevel={handleLevelUpdate}
+                  onRecordAnswer={recordClozeAnswer}
+                  onAddExample={handleAddExample}
+                  onImportSentences={handleImportSentences}
+               />;
+    }
+    if (mode === GameMode.STATS) {
+        return <StatsMode 
+                  key={`stats-${gameSessionId}`}
+                  data={vocab} 
+                  sources={sources}
+                  history={history}
+                  onExit={resetGame} 
+               />;
+    }
+    if (mode === GameMode.WORD_LIST) return <WordListMode key={`wordlist-${gameSessionId}`} data={activeVocab} jumpToId={jumpToId} onExit={resetGame} onUpdateLevel={handleLevelUpdate} onResetLevels={() => handleResetLevels('', 0)} onShuffle={handleShuffle} onRestore={handleRestore} onGetSourceName={getSourceName} onEditWord={handleEditWord} onDeleteWord={handleDeleteWord} onNewWord={() => setNewWordDraft('')} />;
 
     // MENU
     return (
@@ -758,8 +1481,8 @@ const App = () => {
                 <label className="flex flex-col items-center cursor-pointer">
                   <FileUp size={48} className="text-monkey-sub group-hover:text-monkey-main transition-colors mb-4 duration-300" />
                   <span className="text-lg md:text-xl font-bold text-monkey-text mb-2 text-center">Upload Files / Load Progress</span>
-                  <span className="text-xs md:text-sm text-monkey-sub text-center px-4">Supported: PDF, DOCX, TXT, .FORGE (Batch supported)</span>
-                  <input ref={emptyStateFileInputRef} type="file" multiple className="hidden" accept=".pdf,.txt,.docx,.forge,.json,application/json,application/octet-stream,text/json" onChange={handleFileUpload} />
+                  <span className="text-xs md:text-sm text-monkey-sub text-center px-4">Supported: PDF, DOCX, TXT, CSV/TSV, JPG/PNG scans, Anki .APKG/.COLPKG, .FORGE (Batch supported)</span>
+                  <input ref={emptyStateFileInputRef} type="file" multiple className="hidden" accept=".pdf,.txt,.docx,.jpg,.jpeg,.png,.csv,.tsv,.apkg,.colpkg,.forge,.json,application/json,application/octet-stream,text/json,text/csv,text/tab-separated-values" onChange={handleFileUpload} />
                 </label>
                 {error && (
                   <div className="mt-6 relative flex items-center gap-2 text-monkey-error bg-monkey-error/10 p-3 pr-10 rounded text-sm animate-shake">
@@ -774,6 +1497,13 @@ const App = () => {
                     </button>
                   </div>
                 )}
+                {storageWarning && (
+                  <div className="mt-3 flex items-center gap-2 text-monkey-main bg-monkey-main/10 p-3 rounded text-sm">
+                    <AlertTriangle size={16} className="shrink-0" />
+                    <span>{storageWarning}</span>
+                    {unreadableActions}
+                  </div>
+                )}
               </div>
           </div>
         ) : (
@@ -818,12 +1548,39 @@ const App = () => {
                             <span className="hidden sm:inline">Save</span>
                         </button>
 
+                        <SyncIndicator
+                            status={syncStatus}
+                            serverUrl={syncConfig.serverUrl}
+                            deviceId={syncConfig.deviceId}
+                            onConnect={handleSyncConnect}
+                            onDisconnect={handleSyncDisconnect}
+                            onSyncNow={runSync}
+                        />
+
+                        <button 
+                            onClick={handleExportCsv} 
+                            className="text-xs text-monkey-sub hover:text-monkey-main flex items-center gap-1 transition-colors"
+                            title="Export active words as CSV (3)"
+                        >
+                            <FileSpreadsheet size={14} />
+                            <span className="hidden sm:inline">CSV</span>
+                        </button>
+
+                        <button 
+                            onClick={handleExportAnki} 
+                            className="text-xs text-monkey-sub hover:text-monkey-main flex items-center gap-1 transition-colors"
+                            title="Export active words as an Anki deck (4)"
+                        >
+                            <Layers size={14} />
+                            <span className="hidden sm:inline">Anki</span>
+                        </button>
+
                         <div className="w-px h-4 bg-monkey-sub/20"></div>
 
                         <label className="text-xs text-monkey-sub hover:text-monkey-text cursor-pointer hover:underline flex items-center gap-1 transition-colors" title="Add/Replace Files (2)">
                             <FileUp size={14} />
                             <span className="hidden sm:inline">Add/Replace</span>
-                            <input ref={headerFileInputRef} type="file" multiple className="hidden" accept=".pdf,.txt,.docx,.forge,.json,application/json,application/octet-stream,text/json" onChange={handleFileUpload} />
+                            <input ref={headerFileInputRef} type="file" multiple className="hidden" accept=".pdf,.txt,.docx,.jpg,.jpeg,.png,.csv,.tsv,.apkg,.colpkg,.forge,.json,application/json,application/octet-stream,text/json,text/csv,text/tab-separated-values" onChange={handleFileUpload} />
                         </label>
                         </div>
                     </div>
@@ -841,6 +1598,22 @@ const App = () => {
                         </button>
                         </div>
                     )}
+
+                    {/* Storage Warning (Autosave / Quota) */}
+                    {storageWarning && (
+                        <div className="relative flex items-center gap-2 text-monkey-main bg-monkey-main/10 p-2 pr-8 rounded text-xs mt-1">
+                        <AlertTriangle size={14} className="shrink-0" /> 
+                        <span>{storageWarning}</span>
+                        {unreadableActions || (
+                            <button 
+                                onClick={() => setStorageWarning(null)}
+                                className="absolute right-1 top-1/2 -translate-y-1/2 p-1 hover:bg-monkey-main/20 rounded transition-colors text-monkey-main"
+                            >
+                                <X size={12} />
+                            </button>
+                        )}
+                        </div>
+                    )}
                     </div>
                 </div>
 
@@ -866,6 +1639,16 @@ const App = () => {
                                                 </button>
                                                 <span className="text-xs text-monkey-sub uppercase tracking-wider">Source Files</span>
                                             </div>
+                                            <div className="flex items-center gap-1">
+                                            {duplicateGroups.length > 0 && (
+                                                <button
+                                                    onClick={() => setShowDuplicates(true)}
+                                                    className="flex items-center gap-1 px-2 py-1 rounded text-xs text-monkey-sub hover:text-monkey-main hover:bg-monkey-sub/10 transition-colors"
+                                                    title="Words that appear in more than one place"
+                                                >
+                                                    <Files size={14} /> {unresolvedDuplicates.length > 0 && `${unresolvedDuplicates.length} duplicates`}
+                                                </button>
+                                            )}
                                             <button 
                                                 onClick={() => setIsSortMode(!isSortMode)}
                                                 className={`p-1.5 rounded transition-all ${isSortMode ? 'bg-monkey-main text-monkey-bg' : 'text-monkey-sub hover:bg-monkey-sub/10'}`}
@@ -873,6 +1656,7 @@ const App = () => {
                                             >
                                                 <ArrowDownUp size={16} />
                                             </button>
+                                            </div>
                                         </div>
                                         <div className="flex flex-col gap-1 max-h-[60vh] overflow-y-auto custom-scrollbar p-2">
                                             {sources.map((source, index) => (
@@ -953,6 +1737,13 @@ const App = () => {
                                                         >
                                                             <Pencil size={12} />
                                                         </button>
+                                                        <button 
+                                                            onClick={(e) => { e.stopPropagation(); handleReparseSource(source.id); }}
+                                                            className="opacity-0 group-hover/item:opacity-100 text-monkey-sub hover:text-monkey-text transition-opacity p-1"
+                                                            title="Re-parse with another profile"
+                                                        >
+                                                            <RefreshCw size={12} />
+                                                        </button>
                                                         <span className="text-xs text-monkey-sub bg-monkey-sub/10 px-1 rounded ml-auto">{source.wordCount}</span>
                                                     </div>
                                                     )}
@@ -1011,7 +1802,17 @@ const App = () => {
                                                     }}
                                                     className={`p-3 border-b border-monkey-sub/10 last:border-0 hover:bg-[#323437] transition-all duration-200 relative group/result ${usingKeyboard && idx === searchCursor ? 'bg-monkey-main/10' : ''}`}
                                                 >
-                                                    <div className="flex justify-between items-start mb-1 pr-8">
+                                                    {editingSearchId === item.id ? (
+                                                        <WordEditor
+                                                            word={item.word}
+                                                            definition={item.definition}
+                                                            onSave={(word, definition) => { handleEditWord(item.id, word, definition); setEditingSearchId(null); }}
+                                                            onCancel={() => setEditingSearchId(null)}
+                                                            onDelete={() => { handleDeleteWord(item.id); setEditingSearchId(null); }}
+                                                        />
+                                                    ) : (
+                                                    <>
+                                                    <div className="flex justify-between items-start mb-1 pr-16">
                                                         <span className="font-bold text-monkey-main select-all">{item.word}</span>
                                                         
                                                         {/* Interactive Traffic Lights in Search */}
@@ -1036,15 +1837,26 @@ const App = () => {
                                                             ))}
                                                         </div>
                                                     </div>
-                                                    <div className="text-sm text-monkey-sub leading-snug">{item.definition}</div>
+                                                    <div className="text-sm text-monkey-sub leading-snug"><DefinitionView item={item} inline /></div>
                                                     {item.sourceId && (
                                                         <div className="text-[10px] text-monkey-sub/40 mt-1 truncate">
                                                             {getSourceName(item.sourceId)}
                                                         </div>
                                                     )}
 
-                                                    {/* Quick Action Button */}
-                                                    <div className="absolute top-2 right-2">
+                                                    {/* Quick Action Buttons */}
+                                                    <div className="absolute top-2 right-2 flex gap-1">
+                                                        <button
+                                                            onClick={(e) => {
+                                                                e.stopPropagation();
+                                                                setActiveSearchMenuId(null);
+                                                                setEditingSearchId(item.id);
+                                                            }}
+                                                            className="p-1 rounded hover:bg-monkey-sub/20 text-monkey-sub hover:text-monkey-text transition-colors"
+                                                            title="Edit"
+                                                        >
+                                                            <Pencil size={16} />
+                                                        </button>
                                                         <button
                                                             onClick={(e) => {
                                                                 e.stopPropagation();
@@ -1081,11 +1893,19 @@ const App = () => {
                                                             </div>
                                                         )}
                                                     </div>
+                                                    </>
+                                                    )}
                                                 </div>
                                             ))
                                         ) : (
-                                            <div className="p-4 text-center text-monkey-sub text-sm">
+                                            <div className="p-4 text-center text-monkey-sub text-sm flex flex-col items-center gap-3">
                                                 No words or definitions found matching "{searchQuery}"
+                                                <button
+                                                    onClick={(e) => { e.stopPropagation(); setNewWordDraft(searchQuery.trim()); }}
+                                                    className="flex items-center gap-1 px-3 py-1 rounded border border-monkey-sub/30 hover:border-monkey-main hover:text-monkey-main transition-colors"
+                                                >
+                                                    <Plus size={14} /> Add "{searchQuery.trim()}"
+                                                </button>
                                             </div>
                                         )}
                                     </div>
@@ -1135,6 +1955,38 @@ const App = () => {
                             onClick={() => setMode(GameMode.WORD_LIST)} 
                             isSelected={usingKeyboard && !searchQuery && menuCursor === 3}
                             />
+                            <MenuCard 
+                            icon={<CalendarCheck size={24} />}
+                            title="Review Due" 
+                            desc={dueCount > 0 ? `${dueCount} cards due` : 'All caught up'} 
+                            delay={500}
+                            onClick={() => setMode(GameMode.REVIEW)} 
+                            isSelected={usingKeyboard && !searchQuery && menuCursor === 4}
+                            />
+                            <MenuCard 
+                            icon={<BarChart3 size={24} />}
+                            title="Stats" 
+                            desc="Learning progress" 
+                            delay={600}
+                            onClick={() => setMode(GameMode.STATS)} 
+                            isSelected={usingKeyboard && !searchQuery && menuCursor === 5}
+                            />
+                            <MenuCard 
+                            icon={<Keyboard size={24} />}
+                            title="Spelling" 
+                            desc="Type the word" 
+                            delay={700}
+                            onClick={() => setMode(GameMode.TYPING)} 
+                            isSelected={usingKeyboard && !searchQuery && menuCursor === 6}
+                            />
+                            <MenuCard 
+                            icon={<TextCursorInput size={24} />}
+                            title="Cloze" 
+                            desc="Fill in the sentence" 
+                            delay={800}
+                            onClick={() => setMode(GameMode.CLOZE)} 
+                            isSelected={usingKeyboard && !searchQuery && menuCursor === 7}
+                            />
                         </div>
                     </div>
                 </div>
@@ -1208,6 +2060,29 @@ const App = () => {
         {renderContent()}
       </main>
 
+      <UpdatePrompt onBeforeReload={flushWorkspace} />
+
+      {showDuplicates && (
+        <DuplicatesDialog
+          groups={duplicateGroups}
+          onGetSourceName={getSourceName}
+          onMerge={(ids) => mergeDuplicateGroups([ids])}
+          onMergeAll={() => mergeDuplicateGroups(unresolvedDuplicates.map(g => g.items.map(item => item.id)))}
+          onLink={handleLinkDuplicates}
+          onUnlink={handleUnlinkWord}
+          onClose={() => setShowDuplicates(false)}
+        />
+      )}
+
+      {newWordDraft !== null && (
+        <NewWordDialog
+          sources={sources}
+          initialWord={newWordDraft}
+          onAdd={handleAddWord}
+          onClose={() => setNewWordDraft(null)}
+        />
+      )}
+
       {mode === GameMode.MENU && (
         <footer className="mt-auto md:mt-4 text-center text-xs text-monkey-sub/30 pb-4 pt-2 md:pt-0 flex-shrink-0 z-10">
             &copy; 2026 Word Forge. Workspace Edition.
@@ -1258,6 +2133,47 @@ const App = () => {
         document.body
       )}
 
+      {/* Forge Merge: conflict resolution and summary */}
+      {pendingMerge && (
+        <ForgeMergeDialog
+            conflicts={pendingMerge.conflicts}
+            onMerge={handleMergeForge}
+            onClose={() => setPendingMerge(null)}
+        />
+      )}
+
+      {/* Spreadsheet Column Mapping */}
+      {pendingSpreadsheet && (
+        <CsvImportDialog
+            file={pendingSpreadsheet.file}
+            initialTable={pendingSpreadsheet.table}
+            onImport={handleSpreadsheetImport}
+            onCancel={() => setPendingSpreadsheet(null)}
+        />
+      )}
+
+      {/* Extraction Review */}
+      {pendingReview && (
+        <ImportReviewDialog
+            files={pendingReview}
+            profiles={listProfiles(customProfiles)}
+            onCommit={handleReviewCommit}
+            onCancel={() => setPendingReview(null)}
+            onSaveProfile={handleSaveProfile}
+            onDeleteProfile={handleDeleteProfile}
+        />
+      )}
+
+      {/* Anki Field Mapping */}
+      {pendingAnki && (
+        <AnkiImportDialog
+            fileName={pendingAnki.fileName}
+            pkg={pendingAnki.pkg}
+            onImport={handleAnkiImport}
+            onCancel={() => setPendingAnki(null)}
+        />
+      )}
+
       {/* Delete Confirmation Modal */}
       {showDeleteConfirm && createPortal(
         <div 
@@ -0,0 +1,139 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { createPortal } from 'react-dom';
+import { AnkiPackage, AnkiFieldMapping, defaultFieldMapping } from '../services/anki';
+import { Layers } from 'lucide-react';
+
+interface Props {
+  fileName: string;
+  pkg: AnkiPackage;
+  onImport: (mapping: AnkiFieldMapping) => void;
+  onCancel: () => void;
+}
+
+const PREVIEW_NOTES = 3;
+
+export const AnkiImportDialog: React.FC<Props> = ({ fileName, pkg, onImport, onCancel }) => {
+  const [mapping, setMapping] = useState<AnkiFieldMapping>(() => defaultFieldMapping(pkg));
+  const [isClosing, setIsClosing] = useState(false);
+
+  // Only note types that are actually used, most common first
+  const usedModels = useMemo(() => {
+    const counts = new Map<string, number>();
+    pkg.notes.forEach(n => counts.set(n.modelId, (counts.get(n.modelId) || 0) + 1));
+    return pkg.models
+      .filter(m => counts.has(m.id))
+      .map(m => ({ model: m, count: counts.get(m.id)! }))
+      .sort((a, b) => b.count - a.count);
+  }, [pkg]);
+
+  const deckCounts = useMemo(() => {
+    const counts = new Map<string, number>();
+    pkg.notes.forEach(n => counts.set(n.deckName, (counts.get(n.deckName) || 0) + 1));
+    return Array.from(counts.entries());
+  }, [pkg]);
+
+  const canImport = usedModels.some(({ model }) => mapping[model.id] && mapping[model.id].word !== mapping[model.id].definition);
+
+  const close = (after: () => void) => {
+    setIsClosing(true);
+    setTimeout(after, 400);
+  };
+
+  const handleCancel = () => close(onCancel);
+
+  const handleImport = () => {
+    if (!canImport) return;
+    close(() => onImport(mapping));
+  };
+
+  const setField = (modelId: string, side: 'word' | 'definition', index: number) => {
+    setMapping(prev => ({ ...prev, [modelId]: { ...prev[modelId], [side]: index } }));
+  };
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.code === 'Escape') handleCancel();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  const selectClass = "bg-[#323437] border border-monkey-sub/30 rounded px-2 py-1 text-monkey-text focus:outline-none focus:border-monkey-main";
+
+  return createPortal(
+    <div
+      className={`fixed inset-0 z-[9999] flex items-center justify-center bg-black/60 backdrop-blur-sm transition-opacity duration-300 ${isClosing ? 'opacity-0' : 'opacity-100'}`}
+      onClick={(e) => { e.stopPropagation(); handleCancel(); }}
+    >
+      <div
+        className={`bg-[#2c2e31] border border-monkey-sub/30 p-6 rounded-xl max-w-2xl w-full mx-4 max-h-[90vh] flex flex-col ${isClosing ? 'animate-spring-out' : 'animate-spring-in'}`}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center gap-3 text-monkey-main mb-2">
+          <Layers size={24} />
+          <h3 className="text-xl font-bold truncate">Import {fileName}</h3>
+        </div>
+        <p className="text-monkey-sub text-xs mb-4">
+          {pkg.notes.length} notes in {deckCounts.length} {deckCounts.length === 1 ? 'deck' : 'decks'} · each deck becomes a source
+        </p>
+
+        <div className="overflow-y-auto custom-scrollbar flex flex-col gap-4 mb-4">
+          {/* Field Mapping per Note Type */}
+          {usedModels.map(({ model, count }) => {
+            const fields = mapping[model.id];
+            const samples = pkg.notes.filter(n => n.modelId === model.id).slice(0, PREVIEW_NOTES);
+            return (
+              <div key={model.id} className="border border-monkey-sub/20 rounded-lg p-4">
+                <div className="flex justify-between items-center mb-3">
+                  <span className="text-monkey-text font-bold truncate mr-4">{model.name}</span>
+                  <span className="text-xs text-monkey-sub font-mono shrink-0">{count} notes</span>
+                </div>
+                <div className="flex flex-wrap gap-4 text-sm mb-3">
+                  <label className="flex items-center gap-2 text-monkey-sub">
+                    Word
+                    <select value={fields.word} onChange={(e) => setField(model.id, 'word', Number(e.target.value))} className={selectClass}>
+                      {model.fields.map((name, i) => <option key={i} value={i}>{name}</option>)}
+                    </select>
+                  </label>
+                  <label className="flex items-center gap-2 text-monkey-sub">
+                    Definition
+                    <select value={fields.definition} onChange={(e) => setField(model.id, 'definition', Number(e.target.value))} className={selectClass}>
+                      {model.fields.map((name, i) => <option key={i} value={i}>{name}</option>)}
+                    </select>
+                  </label>
+                </div>
+                {samples.map(note => (
+                  <div key={note.id} className="flex gap-3 text-xs py-1 border-t border-monkey-sub/10">
+                    <span className="text-monkey-main font-bold w-1/3 truncate">{note.fields[fields.word]}</span>
+                    <span className="text-monkey-sub flex-1 truncate">{note.fields[fields.definition]}</span>
+                  </div>
+                ))}
+              </div>
+            );
+          })}
+        </div>
+
+        {!canImport && (
+          <p className="text-xs text-monkey-error mb-3">Pick different fields for the word and the definition.</p>
+        )}
+
+        <div className="flex justify-end gap-3 mt-auto">
+          <button
+            onClick={handleCancel}
+            className="px-4 py-2 rounded text-monkey-sub hover:text-monkey-text transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleImport}
+            disabled={!canImport}
+            className="px-4 py-2 rounded bg-monkey-main text-monkey-bg font-bold hover:opacity-90 disabled:opacity-30 transition-opacity"
+          >
+            Import {pkg.notes.length} notes
+          </button>
+        </div>
+      </div>
+    </div>,
+    document.body
+  );
+};
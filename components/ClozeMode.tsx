@@ -0,0 +1,481 @@
+import React, { useState, useEffect, useMemo, useCallback, useRef } from 'react';
+import { VocabularyItem } from '../types';
+import { isAnswerCorrect, buildHint } from '../services/spelling';
+import { buildCloze, hasCloze, sentenceFitsWord, parseSentenceFile, SentencePair } from '../services/cloze';
+import { pickDistractors } from '../services/distractors';
+import { DefinitionView } from './DefinitionView';
+import { useAnswerRound } from './useAnswerRound';
+import { ArrowRight, ArrowLeft, Shuffle, RotateCcw, FileBadge, Lightbulb, CheckCircle, XCircle, ListChecks, PenLine, FileUp } from 'lucide-react';
+
+interface Props {
+  data: VocabularyItem[];
+  initialState?: { index: number; activeLevels?: number[]; useChoices?: boolean };
+  jumpToId?: string | null;
+  onExit: () => void;
+  onShuffle: () => void;
+  onRestore: () => void;
+  onSaveProgress: (state: { index: number; activeLevels: number[]; useChoices: boolean }) => void;
+  onGetSourceName: (id: string) => string | undefined;
+  onUpdateLevel: (id: string, level: number) => void;
+  onRecordAnswer?: (id: string, correct: boolean, responseMs: number, levelAfter?: number, confusedWithId?: string) => void;
+  onAddExample: (id: string, sentence: string) => void;
+  onImportSentences: (pairs: SentencePair[]) => { added: number; unmatched: number };
+}
+
+type AnswerResult = { given: string; correct: boolean };
+
+export const ClozeMode: React.FC<Props> = ({
+  data,
+  initialState,
+  jumpToId,
+  onExit,
+  onShuffle,
+  onRestore,
+  onSaveProgress,
+  onGetSourceName,
+  onUpdateLevel,
+  onRecordAnswer,
+  onAddExample,
+  onImportSentences
+}) => {
+  // Filter Logic - Initialize from saved state or default to all
+  const [activeLevels, setActiveLevels] = useState<Set<number>>(() => {
+    return initialState?.activeLevels ? new Set(initialState.activeLevels) : new Set([0, 1, 2, 3]);
+  });
+  const [useChoices, setUseChoices] = useState(initialState?.useChoices ?? false);
+  // Writing view: walk through words without a usable sentence and add one
+  const [isWriting, setIsWriting] = useState(false);
+
+  const filteredData = useMemo(() => {
+    return data.filter(item => activeLevels.has(item.level));
+  }, [data, activeLevels]);
+
+  const deck = useMemo(() => {
+    return filteredData.filter(item => hasCloze(item) !== isWriting);
+  }, [filteredData, isWriting]);
+
+  const { index, currentItem, isPinned, isFinished, roundSize, pin, goTo, advance, startRound } = useAnswerRound(deck, initialState?.index || 0);
+  const [input, setInput] = useState('');
+  const [result, setResult] = useState<AnswerResult | null>(null);
+  const [showHint, setShowHint] = useState(false);
+  const [showSource, setShowSource] = useState(false);
+  const [score, setScore] = useState(0);
+  const [draft, setDraft] = useState('');
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const inputRef = useRef<HTMLInputElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const questionShownAt = useRef(Date.now());
+
+  const cloze = useMemo(() => currentItem && !isWriting ? buildCloze(currentItem) : null, [currentItem, isWriting]);
+
+  // Multiple choice: the answer plus three plausible wrong words, drawn once per question
+  const [options, setOptions] = useState<VocabularyItem[]>([]);
+  useEffect(() => {
+    if (!currentItem || !useChoices || isWriting) {
+      setOptions([]);
+      return;
+    }
+    const distractors = pickDistractors(currentItem, data, { count: 3, difficulty: 'normal' });
+    setOptions([currentItem, ...distractors].sort(() => Math.random() - 0.5));
+  }, [currentItem?.id, useChoices, isWriting]);
+
+  // Handle external jump request
+  useEffect(() => {
+    if (jumpToId && deck.length > 0) {
+      const targetIndex = deck.findIndex(item => item.id === jumpToId);
+      if (targetIndex !== -1) goTo(targetIndex);
+    }
+  }, [jumpToId, deck]);
+
+  // Save progress on change
+  useEffect(() => {
+    onSaveProgress({ index, activeLevels: Array.from(activeLevels), useChoices });
+  }, [index, activeLevels, useChoices, onSaveProgress]);
+
+  // Fresh question: clear input, hint and timer. A new round can start on the same word.
+  useEffect(() => {
+    setInput('');
+    setDraft('');
+    setResult(null);
+    setShowHint(false);
+    questionShownAt.current = Date.now();
+    inputRef.current?.focus();
+  }, [currentItem?.id, isFinished]);
+
+  const toggleFilter = (level: number) => {
+    setActiveLevels(prev => {
+      const next = new Set(prev);
+      if (next.has(level)) next.delete(level);
+      else next.add(level);
+      return next.size === 0 ? prev : next;
+    });
+    startRound();
+    setScore(0);
+  };
+
+  const restartRound = () => {
+    startRound();
+    setScore(0);
+  };
+
+  const toggleWriting = () => {
+    setIsWriting(prev => !prev);
+    startRound();
+    setNotice(null);
+  };
+
+  const answer = useCallback((given: string, chosen?: VocabularyItem) => {
+    if (!currentItem || !cloze || result) return;
+    const correct = chosen
+      ? chosen.id === currentItem.id
+      : isAnswerCorrect(given, cloze.answer) || isAnswerCorrect(given, currentItem.word);
+    // A miss demotes the word one level, as in spelling
+    const demote = !correct && currentItem.level > 0;
+    const levelAfter = demote ? currentItem.level - 1 : currentItem.level;
+
+    onRecordAnswer?.(currentItem.id, correct, Date.now() - questionShownAt.current, levelAfter, chosen && !correct ? chosen.id : undefined);
+    pin(currentItem);
+    setResult({ given, correct });
+    if (correct) setScore(s => s + 1);
+    if (demote) onUpdateLevel(currentItem.id, levelAfter);
+  }, [currentItem, cloze, result, pin, onRecordAnswer, onUpdateLevel]);
+
+  const saveSentence = useCallback(() => {
+    if (!currentItem) return;
+    const sentence = draft.trim();
+    if (!sentence) return;
+    if (!sentenceFitsWord(sentence, currentItem.word)) {
+      setNotice(`The sentence needs to contain "${currentItem.word}" or a regular form of it.`);
+      return;
+    }
+    setNotice(null);
+    // The word now has a sentence and leaves this list; the next one slides into its place
+    onAddExample(currentItem.id, sentence);
+  }, [currentItem, draft, onAddExample]);
+
+  const handleSubmit = useCallback(() => {
+    if (!currentItem) return;
+    if (isWriting) {
+      saveSentence();
+      return;
+    }
+
+    // Second Enter after an answer moves on
+    if (result) {
+      advance();
+      return;
+    }
+    if (!useChoices && input.trim()) answer(input);
+  }, [currentItem, isWriting, saveSentence, result, advance, useChoices, input, answer]);
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const pairs = parseSentenceFile(await file.text());
+    if (pairs.length === 0) {
+      setNotice(`${file.name}: No "word<Tab>sentence" lines found`);
+      return;
+    }
+    const { added, unmatched } = onImportSentences(pairs);
+    setNotice(`Added ${added} sentences${unmatched > 0 ? `, ${unmatched} words not in your vocabulary` : ''}`);
+  };
+
+  const handleShuffleClick = () => {
+    startRound();
+    setScore(0);
+    onShuffle();
+  };
+
+  const handleRestoreClick = () => {
+    startRound();
+    setScore(0);
+    onRestore();
+  };
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.code === 'Escape') {
+        onExit();
+      } else if (isFinished) {
+        if (e.code === 'Enter') restartRound();
+      } else if (e.code === 'Enter') {
+        e.preventDefault();
+        handleSubmit();
+      } else if (e.code === 'Tab' && !isWriting) {
+        e.preventDefault();
+        setShowHint(true);
+      } else if (useChoices && !isWriting && !result && /^Digit[1-4]$/.test(e.code)) {
+        const option = options[parseInt(e.code.slice(5), 10) - 1];
+        if (option) answer(option.word, option);
+      } else if (result && e.code === 'ArrowRight') {
+        advance();
+      } else if (result && e.code === 'ArrowLeft') {
+        goTo(index - 1);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [handleSubmit, onExit, isFinished, isWriting, useChoices, result, options, answer, index, goTo, advance]);
+
+  const actionClass = (active: boolean) => `p-2 transition-colors ${active ? 'text-monkey-text bg-monkey-sub/20 rounded' : 'text-monkey-sub hover:text-monkey-main'}`;
+
+  const toolbar = (
+    <div className="flex gap-2">
+      <button onClick={() => fileInputRef.current?.click()} className={actionClass(false)} title="Import sentences (word<Tab>sentence per line)">
+        <FileUp size={16} />
+      </button>
+      <button onClick={toggleWriting} className={actionClass(isWriting)} title="Write sentences for words without one">
+        <PenLine size={16} />
+      </button>
+      {!isWriting && (
+        <>
+          <button onClick={() => setUseChoices(prev => !prev)} className={actionClass(useChoices)} title="Multiple choice">
+            <ListChecks size={16} />
+          </button>
+          <button
+            onClick={() => setShowHint(true)}
+            disabled={!!result || showHint}
+            className="p-2 text-monkey-sub hover:text-monkey-main transition-colors disabled:opacity-30"
+            title="Hint (Tab)"
+          >
+            <Lightbulb size={16} />
+          </button>
+        </>
+      )}
+      <button onClick={() => setShowSource(!showSource)} className={actionClass(showSource)} title="Toggle Source File">
+        <FileBadge size={16} />
+      </button>
+      <button onClick={handleShuffleClick} className="p-2 text-monkey-sub hover:text-monkey-main transition-colors" title="Shuffle"><Shuffle size={16} /></button>
+      <button onClick={handleRestoreClick} className="p-2 text-monkey-sub hover:text-monkey-main transition-colors" title="Restore Order"><RotateCcw size={16} /></button>
+      <input type="file" ref={fileInputRef} className="hidden" accept=".txt,.tsv,text/plain" onChange={handleImportFile} />
+    </div>
+  );
+
+  const filters = (
+    <div className="flex gap-1">
+      {[0, 1, 2, 3].map(level => (
+        <button
+          key={level}
+          onClick={() => toggleFilter(level)}
+          className={`w-7 h-7 rounded flex items-center justify-center text-xs font-bold transition-all ${
+            activeLevels.has(level)
+              ? 'bg-[#3e4044] text-gray-200 border border-monkey-sub/50'
+              : 'bg-transparent text-monkey-sub hover:text-gray-300 border border-monkey-sub/20'
+          }`}
+        >
+          {level}
+        </button>
+      ))}
+    </div>
+  );
+
+  if (isFinished) {
+    return (
+      <div className="flex flex-col items-center justify-center h-full text-center animate-game-pop-in">
+        <CheckCircle size={48} className="text-green-500 mb-4" />
+        <h2 className="text-2xl font-bold text-monkey-text mb-2">Round complete</h2>
+        <p className="text-monkey-sub text-sm">
+          <span className="text-monkey-main font-mono">{score}</span> of {roundSize} sentences filled in correctly.
+        </p>
+        <div className="flex gap-4 mt-8">
+          <button
+            onClick={restartRound}
+            className="flex items-center gap-2 px-6 py-3 rounded bg-monkey-main text-monkey-bg font-bold hover:opacity-90 transition-opacity select-none"
+          >
+            <RotateCcw size={18} /> Again
+          </button>
+          <button onClick={onExit} className="text-monkey-sub underline">Back</button>
+        </div>
+      </div>
+    );
+  }
+
+  if (deck.length === 0 && !isPinned) {
+    return (
+      <div className="flex flex-col items-center justify-center h-full text-center animate-game-pop-in px-4">
+        <h2 className="text-2xl font-bold text-monkey-sub mb-2">
+          {isWriting ? 'Every word in these levels has a sentence' : 'No example sentences in selected levels'}
+        </h2>
+        {!isWriting && (
+          <p className="text-sm text-monkey-sub/70 mb-6 max-w-md">
+            Import a text file with one "word&lt;Tab&gt;sentence" per line, or write sentences yourself.
+          </p>
+        )}
+        <div className="flex gap-4 items-center justify-center mb-4">
+          {filters}
+          {toolbar}
+        </div>
+        {notice && <p className="text-xs text-monkey-sub">{notice}</p>}
+        <button onClick={onExit} className="mt-8 text-monkey-sub underline">Back</button>
+      </div>
+    );
+  }
+
+  if (!currentItem) return null;
+
+  return (
+    <div className="w-full max-w-2xl mx-auto flex flex-col items-center h-full pt-12 md:pt-16 px-2 md:px-4 animate-game-pop-in">
+
+      <div className="w-full flex justify-between items-end border-b border-monkey-sub/20 pb-2 md:pb-4 mb-4 md:mb-8 select-none relative">
+        {/* Controls */}
+        <div className="absolute -top-10 md:-top-12 left-0 right-0 flex justify-between items-center">
+          {filters}
+          {toolbar}
+        </div>
+
+        <div>
+          <span className="text-xs text-monkey-sub uppercase block mb-1">{isWriting ? 'Needs a sentence' : 'Sentence'}</span>
+          <span className="text-xl font-mono text-monkey-main">
+            {Math.min(index + 1, Math.max(deck.length, 1))} <span className="text-monkey-sub">/ {deck.length}</span>
+          </span>
+        </div>
+        {!isWriting && (
+          <div className="text-right">
+            <span className="text-xs text-monkey-sub uppercase block mb-1">Score</span>
+            <span className="text-xl font-mono text-monkey-text">{score}</span>
+          </div>
+        )}
+      </div>
+
+      {notice && <p className="text-xs text-monkey-sub mb-4 text-center">{notice}</p>}
+
+      {isWriting ? (
+        /* Sentence Writing */
+        <div className="w-full flex-grow flex flex-col justify-center items-center gap-4 mb-8">
+          <h2 className="text-3xl md:text-4xl font-bold text-monkey-main">{currentItem.word}</h2>
+          <p className="text-monkey-sub text-center"><DefinitionView item={currentItem} inline /></p>
+          <textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Enter') e.preventDefault(); }}
+            rows={3}
+            autoFocus
+            placeholder={`A sentence using "${currentItem.word}"...`}
+            className="w-full bg-[#2c2e31] border-2 border-monkey-sub/20 focus:border-monkey-main rounded-lg px-4 py-3 text-lg text-monkey-text outline-none resize-none"
+          />
+          <div className="flex gap-3">
+            <button onClick={() => goTo(index + 1)} className="px-4 py-2 rounded text-monkey-sub hover:text-monkey-main transition-colors">Skip</button>
+            <button onClick={saveSentence} disabled={!draft.trim()} className="px-6 py-2 rounded bg-monkey-main text-monkey-bg font-bold hover:opacity-90 disabled:opacity-30 transition-opacity">Save sentence</button>
+          </div>
+        </div>
+      ) : (
+        <>
+          {/* Prompt */}
+          <div className="mb-6 md:mb-10 text-center flex-grow flex flex-col justify-center w-full items-center">
+            <p className="text-xl md:text-2xl text-monkey-text leading-relaxed px-2">
+              {cloze?.before}
+              <span className={`inline-block min-w-[4ch] border-b-2 px-1 font-bold ${result ? (result.correct ? 'border-green-500 text-green-400' : 'border-monkey-error text-monkey-main') : 'border-monkey-main text-transparent'}`}>
+                {result ? cloze?.answer : ' '}
+              </span>
+              {cloze?.after}
+            </p>
+            <p className="text-sm text-monkey-sub mt-4"><DefinitionView item={currentItem} inline /></p>
+
+            {showSource && currentItem.sourceId && (
+              <p className="text-xs text-monkey-sub mt-4 bg-monkey-sub/10 px-2 py-1 rounded inline-block self-center">
+                {onGetSourceName(currentItem.sourceId)}
+              </p>
+            )}
+
+            <p className="text-monkey-sub font-mono tracking-[0.3em] mt-6 h-6">
+              {showHint && !result && cloze ? buildHint(cloze.answer, true) : ''}
+            </p>
+          </div>
+
+          {/* Answer */}
+          <div className="w-full mb-8">
+            {useChoices ? (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                {options.map((option, i) => {
+                  const isAnswer = option.id === currentItem.id;
+                  const isPicked = result && result.given === option.word;
+                  return (
+                    <button
+                      key={option.id}
+                      onClick={() => answer(option.word, option)}
+                      disabled={!!result}
+                      className={`flex items-center gap-3 p-4 rounded-lg border text-left text-lg font-bold transition-colors ${
+                        result && isAnswer ? 'border-green-500 text-green-400'
+                          : isPicked ? 'border-monkey-error text-monkey-error'
+                          : 'border-monkey-sub/20 text-monkey-text hover:border-monkey-main'
+                      }`}
+                    >
+                      <span className="text-xs font-mono text-monkey-sub">{i + 1}</span>
+                      {option.word}
+                    </button>
+                  );
+                })}
+              </div>
+            ) : (
+              <input
+                ref={inputRef}
+                type="text"
+                value={input}
+                onChange={(e) => !result && setInput(e.target.value)}
+                readOnly={!!result}
+                placeholder="Type the missing word..."
+                autoComplete="off"
+                autoCorrect="off"
+                autoCapitalize="off"
+                spellCheck={false}
+                className={`w-full bg-[#2c2e31] border-2 rounded-lg px-4 py-4 text-2xl font-mono text-center outline-none transition-colors ${
+                  result
+                    ? result.correct ? 'border-green-500 text-green-400' : 'border-monkey-error text-monkey-error'
+                    : 'border-monkey-sub/20 focus:border-monkey-main text-monkey-text'
+                }`}
+              />
+            )}
+
+            {result && (
+              <div className="mt-4 flex items-center justify-center gap-2 animate-fade-in">
+                {result.correct ? (
+                  <span className="flex items-center gap-2 text-green-400"><CheckCircle size={18} /> <span className="font-bold">{cloze?.answer}</span></span>
+                ) : (
+                  <span className="flex items-center gap-2 text-monkey-error">
+                    <XCircle size={18} /> <span className="text-sm">Answer:</span>
+                    <span className="font-bold text-monkey-main">{cloze?.answer}</span>
+                  </span>
+                )}
+              </div>
+            )}
+          </div>
+        </>
+      )}
+
+      <div className="w-full flex justify-between mt-auto mb-4 z-10">
+        <button
+          onClick={() => goTo(index - 1)}
+          disabled={index === 0}
+          className="flex items-center gap-2 px-4 py-3 md:px-6 rounded text-monkey-sub hover:text-monkey-main hover:bg-monkey-sub/10 disabled:opacity-30 transition-colors select-none"
+        >
+          <ArrowLeft size={20} /> <span className="hidden md:inline">Prev</span>
+        </button>
+        {!isWriting && (
+          <button
+            onClick={handleSubmit}
+            disabled={useChoices && !result}
+            className="flex items-center gap-2 px-6 py-3 rounded bg-monkey-main text-monkey-bg font-bold hover:opacity-90 disabled:opacity-30 transition-opacity select-none"
+          >
+            {result ? 'Next' : 'Check'}
+          </button>
+        )}
+        <button
+          onClick={() => goTo(index + 1)}
+          disabled={index >= deck.length - 1}
+          className="flex items-center gap-2 px-4 py-3 md:px-6 rounded text-monkey-sub hover:text-monkey-main hover:bg-monkey-sub/10 disabled:opacity-30 transition-colors select-none"
+        >
+          <span className="hidden md:inline">Skip</span> <ArrowRight size={20} />
+        </button>
+      </div>
+
+      {/* Keyboard Legend */}
+      <div className="mb-4 text-[10px] text-monkey-sub/30 flex gap-4 pointer-events-none hidden md:flex">
+        {isWriting ? <span>Enter: Save sentence</span> : <span>Enter: Check / Next</span>}
+        {!isWriting && (useChoices ? <span>1-4: Choose</span> : <span>Tab: Hint</span>)}
+        <span>Esc: Exit</span>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,170 @@
+import React, { useState, useEffect } from 'react';
+import { createPortal } from 'react-dom';
+import { CsvTable, CsvMapping, CsvColumnRole, CSV_COLUMN_ROLES, DELIMITER_LABELS, readSpreadsheet, guessMapping } from '../services/csv';
+import { FileSpreadsheet } from 'lucide-react';
+
+interface Props {
+  file: File;
+  initialTable: CsvTable;
+  onImport: (table: CsvTable, mapping: CsvMapping) => void;
+  onCancel: () => void;
+}
+
+const PREVIEW_ROWS = 6;
+
+const ROLE_LABELS: Record<CsvColumnRole, string> = {
+  word: 'Word',
+  definition: 'Definition',
+  level: 'Level',
+  source: 'Source',
+  tags: 'Tags',
+  ignore: 'Ignore',
+};
+
+export const CsvImportDialog: React.FC<Props> = ({ file, initialTable, onImport, onCancel }) => {
+  const [table, setTable] = useState<CsvTable>(initialTable);
+  const [mapping, setMapping] = useState<CsvMapping>(() => guessMapping(initialTable.rows));
+  const [isClosing, setIsClosing] = useState(false);
+
+  const dataRows = mapping.hasHeader ? table.rows.slice(1) : table.rows;
+  const canImport = mapping.columns.includes('word') && mapping.columns.includes('definition') && dataRows.length > 0;
+
+  const close = (after: () => void) => {
+    setIsClosing(true);
+    setTimeout(after, 400);
+  };
+
+  const handleCancel = () => close(onCancel);
+
+  const handleImport = () => {
+    if (!canImport) return;
+    close(() => onImport(table, mapping));
+  };
+
+  // Re-split the file with another delimiter and start over with a fresh guess
+  const handleDelimiterChange = async (delimiter: string) => {
+    const next = await readSpreadsheet(file, delimiter);
+    setTable(next);
+    setMapping(guessMapping(next.rows));
+  };
+
+  // A role can only belong to one column (except "ignore")
+  const setColumnRole = (index: number, role: CsvColumnRole) => {
+    setMapping(prev => ({
+      ...prev,
+      columns: prev.columns.map((r, i) => {
+        if (i === index) return role;
+        return role !== 'ignore' && r === role ? 'ignore' : r;
+      })
+    }));
+  };
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.code === 'Escape') handleCancel();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  return createPortal(
+    <div
+      className={`fixed inset-0 z-[9999] flex items-center justify-center bg-black/60 backdrop-blur-sm transition-opacity duration-300 ${isClosing ? 'opacity-0' : 'opacity-100'}`}
+      onClick={(e) => { e.stopPropagation(); handleCancel(); }}
+    >
+      <div
+        className={`bg-[#2c2e31] border border-monkey-sub/30 p-6 rounded-xl max-w-3xl w-full mx-4 max-h-[90vh] flex flex-col ${isClosing ? 'animate-spring-out' : 'animate-spring-in'}`}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center gap-3 text-monkey-main mb-2">
+          <FileSpreadsheet size={24} />
+          <h3 className="text-xl font-bold truncate">Import {file.name}</h3>
+        </div>
+        <p className="text-monkey-sub text-xs mb-4">
+          {table.encoding} · {dataRows.length} rows · choose what each column contains
+        </p>
+
+        {/* Parse Options */}
+        <div className="flex flex-wrap items-center gap-4 mb-4 text-sm">
+          <label className="flex items-center gap-2 text-monkey-sub">
+            Delimiter
+            <select
+              value={table.delimiter}
+              onChange={(e) => handleDelimiterChange(e.target.value)}
+              className="bg-[#323437] border border-monkey-sub/30 rounded px-2 py-1 text-monkey-text focus:outline-none focus:border-monkey-main"
+            >
+              {Object.entries(DELIMITER_LABELS).map(([value, label]) => (
+                <option key={label} value={value}>{label}</option>
+              ))}
+            </select>
+          </label>
+          <label className="flex items-center gap-2 text-monkey-sub cursor-pointer">
+            <input
+              type="checkbox"
+              checked={mapping.hasHeader}
+              onChange={(e) => setMapping(prev => ({ ...prev, hasHeader: e.target.checked }))}
+              className="accent-[#e2b714]"
+            />
+            First row is a header
+          </label>
+        </div>
+
+        {/* Column Mapping + Preview */}
+        <div className="overflow-auto custom-scrollbar border border-monkey-sub/20 rounded-lg mb-4">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="bg-[#323437]">
+                {mapping.columns.map((role, index) => (
+                  <th key={index} className="p-2 text-left font-normal">
+                    <select
+                      value={role}
+                      onChange={(e) => setColumnRole(index, e.target.value as CsvColumnRole)}
+                      className={`w-full bg-transparent border rounded px-1 py-1 focus:outline-none ${role === 'ignore' ? 'border-monkey-sub/20 text-monkey-sub' : 'border-monkey-main/50 text-monkey-main'}`}
+                    >
+                      {CSV_COLUMN_ROLES.map(r => <option key={r} value={r}>{ROLE_LABELS[r]}</option>)}
+                    </select>
+                    {mapping.hasHeader && (
+                      <div className="text-[10px] text-monkey-sub/60 mt-1 truncate">{table.rows[0]?.[index]}</div>
+                    )}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {dataRows.slice(0, PREVIEW_ROWS).map((row, r) => (
+                <tr key={r} className="border-t border-monkey-sub/10">
+                  {mapping.columns.map((role, c) => (
+                    <td key={c} className={`p-2 max-w-[12rem] truncate ${role === 'ignore' ? 'text-monkey-sub/40' : 'text-monkey-text'}`}>
+                      {row[c]}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        {!canImport && (
+          <p className="text-xs text-monkey-error mb-3">Map one column to Word and one to Definition.</p>
+        )}
+
+        <div className="flex justify-end gap-3 mt-auto">
+          <button
+            onClick={handleCancel}
+            className="px-4 py-2 rounded text-monkey-sub hover:text-monkey-text transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleImport}
+            disabled={!canImport}
+            className="px-4 py-2 rounded bg-monkey-main text-monkey-bg font-bold hover:opacity-90 disabled:opacity-30 transition-opacity"
+          >
+            Import {dataRows.length} rows
+          </button>
+        </div>
+      </div>
+    </div>,
+    document.body
+  );
+};
@@ -0,0 +1,51 @@
+import React from 'react';
+import { VocabularyItem } from '../types';
+import { getSenses, groupSenses } from '../services/definitions';
+
+interface Props {
+  item: VocabularyItem;
+  inline?: boolean; // One run of text for rows and options; otherwise one line per part of speech
+  className?: string;
+}
+
+// Chips take the surrounding text colour so redacted answers (text-transparent) stay hidden
+const PosChip: React.FC<{ pos: string }> = ({ pos }) => (
+  <span className="inline-block font-mono text-[0.7em] leading-none border border-current rounded px-1 py-0.5 mr-1.5 align-middle opacity-70">
+    {pos}
+  </span>
+);
+
+export const DefinitionView: React.FC<Props> = ({ item, inline = false, className = '' }) => {
+  const groups = groupSenses(getSenses(item));
+  const numbered = groups.reduce((sum, g) => sum + g.meanings.length, 0) > 1;
+
+  if (inline) {
+    return (
+      <span className={className}>
+        {groups.map((group, i) => (
+          <span key={i} className={i > 0 ? 'ml-2' : ''}>
+            {group.pos && <PosChip pos={group.pos} />}
+            {group.meanings.join('; ')}
+          </span>
+        ))}
+      </span>
+    );
+  }
+
+  let counter = 0;
+  return (
+    <span className={`inline-flex flex-col gap-1 ${className}`}>
+      {groups.map((group, i) => (
+        <span key={i}>
+          {group.pos && <PosChip pos={group.pos} />}
+          {group.meanings.map((meaning, j) => (
+            <span key={j} className={j > 0 ? 'ml-2' : ''}>
+              {numbered && <span className="opacity-50 mr-1">{++counter}.</span>}
+              {meaning}
+            </span>
+          ))}
+        </span>
+      ))}
+    </span>
+  );
+};
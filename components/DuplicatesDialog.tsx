@@ -0,0 +1,137 @@
+import React, { useState, useEffect } from 'react';
+import { createPortal } from 'react-dom';
+import { DuplicateGroup, isLinkedGroup } from '../services/duplicates';
+import { DefinitionView } from './DefinitionView';
+import { Files, Merge, Link2, Unlink2, X } from 'lucide-react';
+
+interface Props {
+  groups: DuplicateGroup[];
+  onGetSourceName: (id?: string | null) => string | undefined;
+  onMerge: (ids: string[]) => void;
+  onMergeAll: () => void;
+  onLink: (ids: string[]) => void;
+  onUnlink: (id: string) => void;
+  onClose: () => void;
+}
+
+const normalizeDefinition = (definition: string) => definition.replace(/\s+/g, '').toLowerCase();
+
+export const DuplicatesDialog: React.FC<Props> = ({ groups, onGetSourceName, onMerge, onMergeAll, onLink, onUnlink, onClose }) => {
+  const [isClosing, setIsClosing] = useState(false);
+  const linkedCount = groups.filter(isLinkedGroup).length;
+
+  const close = () => {
+    setIsClosing(true);
+    setTimeout(onClose, 400);
+  };
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.code === 'Escape') close();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  return createPortal(
+    <div
+      className={`fixed inset-0 z-[9999] flex items-center justify-center bg-black/60 backdrop-blur-sm transition-opacity duration-300 ${isClosing ? 'opacity-0' : 'opacity-100'}`}
+      onClick={(e) => { e.stopPropagation(); close(); }}
+    >
+      <div
+        className={`bg-[#2c2e31] border border-monkey-sub/30 rounded-xl max-w-4xl w-full mx-4 max-h-[85vh] flex flex-col ${isClosing ? 'animate-spring-out' : 'animate-spring-in'}`}
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between gap-3 p-5 border-b border-monkey-sub/20">
+          <div className="flex items-center gap-3 text-monkey-main">
+            <Files size={22} />
+            <div>
+              <h3 className="text-xl font-bold">Duplicates</h3>
+              <p className="text-xs text-monkey-sub">
+                {groups.length} words appear more than once{linkedCount > 0 && `, ${linkedCount} of them linked`}
+              </p>
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            {linkedCount < groups.length && (
+              <button
+                onClick={onMergeAll}
+                className="flex items-center gap-1 px-3 py-1.5 rounded bg-monkey-main text-monkey-bg font-bold text-sm hover:bg-white transition-colors"
+                title="Merge every group that is not linked into its highest-level entry"
+              >
+                <Merge size={14} /> Merge all
+              </button>
+            )}
+            <button onClick={close} className="p-1.5 rounded text-monkey-sub hover:text-monkey-text hover:bg-monkey-sub/10 transition-colors">
+              <X size={18} />
+            </button>
+          </div>
+        </div>
+
+        {/* Groups */}
+        <div className="overflow-y-auto custom-scrollbar p-5 flex flex-col gap-4">
+          {groups.length === 0 && (
+            <p className="text-center text-monkey-sub py-10">No duplicate words across your sources.</p>
+          )}
+          {groups.map(group => {
+            const ids = group.items.map(item => item.id);
+            const allLinked = isLinkedGroup(group);
+            const sameDefinition = new Set(group.items.map(item => normalizeDefinition(item.definition))).size === 1;
+
+            return (
+              <div key={group.key} className="border border-monkey-sub/20 rounded-lg p-3">
+                <div className="flex flex-wrap items-center gap-2 mb-3">
+                  <span className="font-bold text-monkey-text text-lg">{group.items[0].word}</span>
+                  <span className="text-xs text-monkey-sub">×{group.items.length}</span>
+                  {sameDefinition && <span className="text-[10px] text-monkey-sub bg-monkey-sub/10 px-1.5 py-0.5 rounded">same definition</span>}
+                  {allLinked && <span className="text-[10px] text-monkey-main bg-monkey-main/10 px-1.5 py-0.5 rounded">linked</span>}
+                  <div className="flex-grow" />
+                  {!allLinked && (
+                    <button
+                      onClick={() => onLink(ids)}
+                      className="flex items-center gap-1 px-2 py-1 rounded text-xs text-monkey-sub border border-monkey-sub/30 hover:text-monkey-main hover:border-monkey-main transition-colors"
+                      title="Keep every copy, but share one level"
+                    >
+                      <Link2 size={12} /> Link
+                    </button>
+                  )}
+                  <button
+                    onClick={() => onMerge(ids)}
+                    className="flex items-center gap-1 px-2 py-1 rounded text-xs text-monkey-sub border border-monkey-sub/30 hover:text-monkey-main hover:border-monkey-main transition-colors"
+                    title="Keep the highest level and combine the definitions"
+                  >
+                    <Merge size={12} /> Merge
+                  </button>
+                </div>
+
+                {/* Side-by-side copies */}
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-2">
+                  {group.items.map(item => (
+                    <div key={item.id} className="bg-[#323437] rounded p-2 text-sm flex flex-col gap-1">
+                      <div className="flex items-center gap-2 text-[10px] text-monkey-sub">
+                        <span className="truncate">{onGetSourceName(item.sourceId) || 'No source'}</span>
+                        <div className="flex gap-0.5 ml-auto">
+                          {[1, 2, 3].map(l => (
+                            <div key={l} className={`w-2 h-2 rounded-full border ${item.level >= l ? (item.level === 3 ? 'bg-green-500 border-green-500' : 'bg-monkey-main border-monkey-main') : 'border-monkey-sub/50'}`} />
+                          ))}
+                        </div>
+                        {item.linkId && (
+                          <button onClick={() => onUnlink(item.id)} className="text-monkey-sub hover:text-monkey-error transition-colors" title="Unlink">
+                            <Unlink2 size={12} />
+                          </button>
+                        )}
+                      </div>
+                      <DefinitionView item={item} className="text-gray-200" />
+                    </div>
+                  ))}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>,
+    document.body
+  );
+};
@@ -1,19 +1,23 @@
 
 
 import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
-import { VocabularyItem } from '../types';
-import { ArrowLeft, ArrowRight, Shuffle, RotateCcw, Eye, EyeOff, FileBadge } from 'lucide-react';
+import { VocabularyItem, StudyDirection } from '../types';
+import { resolveDirection, nextDirection, createDirectionSeed, DIRECTION_LABELS } from '../services/direction';
+import { getPhonetic } from '../services/definitions';
+import { DefinitionView } from './DefinitionView';
+import { ArrowLeft, ArrowRight, Shuffle, RotateCcw, Eye, EyeOff, FileBadge, ArrowLeftRight } from 'lucide-react';
 
 interface Props {
   data: VocabularyItem[];
   initialIndex?: number;
   initialActiveLevels?: number[];
+  initialDirection?: StudyDirection;
   jumpToId?: string | null;
   onExit: () => void;
   onUpdateLevel: (id: string, level: number) => void;
   onShuffle: () => void;
   onRestore: () => void;
-  onSaveProgress: (index: number, activeLevels: number[]) => void;
+  onSaveProgress: (index: number, activeLevels: number[], direction: StudyDirection) => void;
   onGetSourceName: (id: string) => string | undefined;
 }
 
@@ -21,6 +25,7 @@ export const FlashcardMode: React.FC<Props> = ({
   data, 
   initialIndex = 0, 
   initialActiveLevels,
+  initialDirection = 'word-def',
   jumpToId,
   onExit, 
   onUpdateLevel, 
@@ -42,6 +47,9 @@ export const FlashcardMode: React.FC<Props> = ({
   const [isRevealed, setIsRevealed] = useState(false);
   const [showAllDefs, setShowAllDefs] = useState(false);
   const [showSource, setShowSource] = useState(false);
+  const [direction, setDirection] = useState<StudyDirection>(initialDirection);
+  // "Mixed" picks each card's side anew every session
+  const [directionSeed] = useState(createDirectionSeed);
   
   // Gesture State for Main Card
   const [dragX, setDragX] = useState(0);
@@ -60,6 +68,8 @@ export const FlashcardMode: React.FC<Props> = ({
 
   const currentCard = filteredData[index];
   const nextCard = filteredData[index + 1]; 
+  const cardDirection = currentCard ? resolveDirection(direction, currentCard.id, directionSeed) : 'word-def';
+  const nextCardDirection = nextCard ? resolveDirection(direction, nextCard.id, directionSeed) : 'word-def';
 
   // Jump to specific word if requested
   useEffect(() => {
@@ -74,8 +84,8 @@ export const FlashcardMode: React.FC<Props> = ({
 
   // Save progress whenever index or filter changes
   useEffect(() => {
-    onSaveProgress(index, Array.from(activeLevels));
-  }, [index, activeLevels, onSaveProgress]);
+    onSaveProgress(index, Array.from(activeLevels), direction);
+  }, [index, activeLevels, direction, onSaveProgress]);
 
   // Adjust index if filtered data changes size
   useEffect(() => {
@@ -173,6 +183,11 @@ export const FlashcardMode: React.FC<Props> = ({
       setShowAllDefs(prev => !prev);
   };
 
+  const cycleDirection = () => {
+      setDirection(prev => nextDirection(prev));
+      setIsRevealed(false);
+  };
+
   // -- Card Gesture Handlers --
 
   const handleTouchStart = (e: React.TouchEvent) => {
@@ -270,6 +285,7 @@ export const FlashcardMode: React.FC<Props> = ({
       if (e.key === '5') toggleShowAllDefs();
       if (e.key === '6') { setIndex(0); onShuffle(); }
       if (e.key === '7') { setIndex(0); onRestore(); }
+      if (e.key === '8') cycleDirection();
 
       if (e.code === 'Space') {
         e.preventDefault(); 
@@ -375,6 +391,14 @@ export const FlashcardMode: React.FC<Props> = ({
             </button>
             <button onClick={() => { setIndex(0); onShuffle(); }} className="p-2 text-monkey-sub hover:text-monkey-main transition-colors" title="Shuffle (6)"><Shuffle size={18} /></button>
             <button onClick={() => { setIndex(0); onRestore(); }} className="p-2 text-monkey-sub hover:text-monkey-main transition-colors" title="Restore Order (7)"><RotateCcw size={18} /></button>
+            <button 
+                onClick={cycleDirection} 
+                className={`p-2 flex items-center gap-1 transition-colors ${direction !== 'word-def' ? 'text-monkey-text bg-monkey-sub/20 rounded' : 'text-monkey-sub hover:text-monkey-main'}`} 
+                title="Card Direction (8)"
+            >
+                <ArrowLeftRight size={18} />
+                <span className="text-[10px] font-bold hidden md:inline">{DIRECTION_LABELS[direction]}</span>
+            </button>
         </div>
       </div>
 
@@ -439,17 +463,24 @@ export const FlashcardMode: React.FC<Props> = ({
 
                 {/* Content */}
                 <div className="flex flex-col items-center justify-center mb-6">
-                    <span className="text-monkey-sub text-xs uppercase tracking-widest mb-4 opacity-50">Word</span>
-                    <h2 className="text-3xl md:text-5xl font-bold text-monkey-main break-words max-w-full text-center">{nextCard.word}</h2>
+                    <span className="text-monkey-sub text-xs uppercase tracking-widest mb-4 opacity-50">{nextCardDirection === 'word-def' ? 'Word' : 'Definition'}</span>
+                    {nextCardDirection === 'word-def' ? (
+                        <>
+                            <h2 className="text-3xl md:text-5xl font-bold text-monkey-main break-words max-w-full text-center">{nextCard.word}</h2>
+                            {getPhonetic(nextCard) && <span className="font-mono text-sm text-monkey-sub mt-2">{getPhonetic(nextCard)}</span>}
+                        </>
+                    ) : (
+                        <h2 className="text-xl md:text-2xl font-bold text-monkey-main break-words max-w-full text-center leading-snug"><DefinitionView item={nextCard} /></h2>
+                    )}
                 </div>
                 
-                 {/* Definition Layer (Redacted Style) */}
+                 {/* Answer Layer (Redacted Style) */}
                  <div className="flex flex-col items-center justify-center w-full px-2 md:px-6">
                     <p className="text-lg md:text-xl leading-relaxed max-h-[40vh] md:max-h-40 overflow-hidden custom-scrollbar text-center text-transparent">
                         <span 
                             className={`rounded px-1 select-none ${showAllDefs ? 'bg-transparent text-gray-200' : 'bg-[#3f4145] text-transparent'}`}
                         >
-                            {nextCard.definition}
+                            {nextCardDirection === 'word-def' ? <DefinitionView item={nextCard} /> : nextCard.word}
                         </span>
                     </p>
                 </div>
@@ -498,13 +529,20 @@ export const FlashcardMode: React.FC<Props> = ({
                 {/* Content Container */}
                 <div className="relative w-full h-full flex flex-col items-center justify-center p-6 md:p-8 text-center">
                     
-                    {/* English Word */}
+                    {/* Prompt Side (English word, or definition when reversed) */}
                     <div className="flex flex-col items-center justify-center mb-6">
-                        <span className="text-monkey-sub text-xs uppercase tracking-widest mb-4 opacity-50">Word</span>
-                        <h2 className="text-3xl md:text-5xl font-bold text-monkey-main break-words max-w-full">{currentCard.word}</h2>
+                        <span className="text-monkey-sub text-xs uppercase tracking-widest mb-4 opacity-50">{cardDirection === 'word-def' ? 'Word' : 'Definition'}</span>
+                        {cardDirection === 'word-def' ? (
+                            <>
+                                <h2 className="text-3xl md:text-5xl font-bold text-monkey-main break-words max-w-full">{currentCard.word}</h2>
+                                {getPhonetic(currentCard) && <span className="font-mono text-sm text-monkey-sub mt-2">{getPhonetic(currentCard)}</span>}
+                            </>
+                        ) : (
+                            <h2 className="text-xl md:text-2xl font-bold text-monkey-main break-words max-w-full leading-snug"><DefinitionView item={currentCard} /></h2>
+                        )}
                     </div>
 
-                    {/* Definition Layer (Redacted Style) */}
+                    {/* Answer Layer (Redacted Style) */}
                      <div className="flex flex-col items-center justify-center w-full px-2 md:px-6">
                         <p className="text-lg md:text-xl leading-relaxed max-h-[40vh] md:max-h-40 overflow-y-auto custom-scrollbar text-center">
                             <span 
@@ -516,9 +554,16 @@ export const FlashcardMode: React.FC<Props> = ({
                                 }
                               `}
                             >
-                                {currentCard.definition}
+                                {cardDirection === 'word-def' ? <DefinitionView item={currentCard} /> : currentCard.word}
                             </span>
                         </p>
+
+                        {/* Example Sentences (back of the card only) */}
+                        {(isRevealed || showAllDefs) && currentCard.examples && currentCard.examples.length > 0 && (
+                            <div className="mt-4 flex flex-col gap-1 max-h-24 overflow-y-auto custom-scrollbar text-sm italic text-monkey-sub animate-fade-in">
+                                {currentCard.examples.map((example, i) => <p key={i}>{example}</p>)}
+                            </div>
+                        )}
                     </div>
 
                 </div>
@@ -0,0 +1,200 @@
+import React, { useState, useEffect } from 'react';
+import { createPortal } from 'react-dom';
+import { VocabularyItem } from '../types';
+import { WordConflict, ConflictPolicy, ConflictSide, MergeSummary, resolveConflicts } from '../services/saveMerge';
+import { DefinitionView } from './DefinitionView';
+import { CopyPlus, Clock, TrendingUp, ListChecks, CheckCircle2, X } from 'lucide-react';
+
+interface Props {
+  conflicts: WordConflict[];
+  onMerge: (choices: Map<string, ConflictSide>) => MergeSummary;
+  onClose: () => void;
+}
+
+const POLICIES: { id: ConflictPolicy; label: string; hint: string; icon: React.ReactNode }[] = [
+  { id: 'newest', label: 'Newest wins', hint: 'Keep the copy studied most recently', icon: <Clock size={18} /> },
+  { id: 'highest', label: 'Highest level wins', hint: 'Keep the copy with the higher level', icon: <TrendingUp size={18} /> },
+  { id: 'ask', label: 'Ask for each word', hint: 'Pick a side word by word', icon: <ListChecks size={18} /> }
+];
+
+const formatTouched = (time: number) => time > 0 ? new Date(time).toLocaleDateString() : 'never studied';
+
+// Helper: One side of a conflict, selectable
+const ConflictCopy: React.FC<{ label: string; item: VocabularyItem; touched: number; selected: boolean; onSelect: () => void }> = ({ label, item, touched, selected, onSelect }) => (
+  <button
+    onClick={onSelect}
+    className={`text-left rounded p-2 text-sm flex flex-col gap-1 border transition-colors ${selected ? 'border-monkey-main bg-monkey-main/10' : 'border-monkey-sub/20 bg-[#323437] hover:border-monkey-sub/50'}`}
+  >
+    <div className="flex items-center gap-2 text-[10px] text-monkey-sub">
+      <span className={selected ? 'text-monkey-main font-bold' : ''}>{label}</span>
+      <span>{formatTouched(touched)}</span>
+      <div className="flex gap-0.5 ml-auto">
+        {[1, 2, 3].map(l => (
+          <div key={l} className={`w-2 h-2 rounded-full border ${item.level >= l ? (item.level === 3 ? 'bg-green-500 border-green-500' : 'bg-monkey-main border-monkey-main') : 'border-monkey-sub/50'}`} />
+        ))}
+      </div>
+    </div>
+    <span className="font-bold text-monkey-text">{item.word}</span>
+    <DefinitionView item={item} inline className="text-gray-300" />
+  </button>
+);
+
+export const ForgeMergeDialog: React.FC<Props> = ({ conflicts, onMerge, onClose }) => {
+  const [stage, setStage] = useState<'policy' | 'ask' | 'summary'>('policy');
+  const [choices, setChoices] = useState<Map<string, ConflictSide>>(() => resolveConflicts(conflicts, 'newest'));
+  const [summary, setSummary] = useState<MergeSummary | null>(null);
+  const [isClosing, setIsClosing] = useState(false);
+
+  const close = () => {
+    setIsClosing(true);
+    setTimeout(onClose, 400);
+  };
+
+  const apply = (resolved: Map<string, ConflictSide>) => {
+    setSummary(onMerge(resolved));
+    setStage('summary');
+  };
+
+  // Nothing to decide: merge straight away and show what changed
+  useEffect(() => {
+    if (conflicts.length === 0) apply(new Map());
+  }, []);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.code === 'Escape') close();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  const choosePolicy = (policy: ConflictPolicy) => {
+    if (policy === 'ask') setStage('ask');
+    else apply(resolveConflicts(conflicts, policy));
+  };
+
+  const setSide = (id: string, side: ConflictSide) => {
+    setChoices(prev => new Map(prev).set(id, side));
+  };
+
+  const setAll = (side: ConflictSide) => {
+    setChoices(new Map(conflicts.map(c => [c.id, side])));
+  };
+
+  const summaryLines = summary ? [
+    `${summary.addedWords} new words`,
+    `${summary.updatedWords} words updated from the file`,
+    `${summary.keptWords} words kept as they were`,
+    `${summary.addedSources} new sources`,
+    `${summary.addedHistory} review log entries added`,
+    ...(summary.addedProfiles > 0 ? [`${summary.addedProfiles} parsing profiles added`] : []),
+    summary.progressModes.length > 0 ? `Game progress taken from the file: ${summary.progressModes.join(', ')}` : 'Game progress kept'
+  ] : [];
+
+  return createPortal(
+    <div
+      className={`fixed inset-0 z-[9999] flex items-center justify-center bg-black/60 backdrop-blur-sm transition-opacity duration-300 ${isClosing ? 'opacity-0' : 'opacity-100'}`}
+      onClick={(e) => { e.stopPropagation(); close(); }}
+    >
+      <div
+        className={`bg-[#2c2e31] border border-monkey-sub/30 rounded-xl w-full mx-4 max-h-[85vh] flex flex-col ${stage === 'ask' ? 'max-w-3xl' : 'max-w-sm'} ${isClosing ? 'animate-spring-out' : 'animate-spring-in'}`}
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between gap-3 p-5 border-b border-monkey-sub/20">
+          <div className="flex items-center gap-3 text-monkey-main">
+            {stage === 'summary' ? <CheckCircle2 size={22} /> : <CopyPlus size={22} />}
+            <h3 className="text-xl font-bold">{stage === 'summary' ? 'Merge complete' : 'Merge Forge file'}</h3>
+          </div>
+          <button onClick={close} className="p-1.5 rounded text-monkey-sub hover:text-monkey-text hover:bg-monkey-sub/10 transition-colors">
+            <X size={18} />
+          </button>
+        </div>
+
+        {stage === 'policy' && (
+          <div className="p-5 flex flex-col gap-3">
+            <p className="text-monkey-sub text-sm">
+              {conflicts.length} words differ between this workspace and the file. Which copy should be kept?
+            </p>
+            {POLICIES.map(policy => (
+              <button
+                key={policy.id}
+                onClick={() => choosePolicy(policy.id)}
+                className="flex items-center gap-3 px-4 py-3 rounded bg-[#323437] border border-monkey-sub/20 text-monkey-text hover:border-monkey-main hover:text-monkey-main transition-colors group text-left"
+              >
+                <span className="text-monkey-sub group-hover:text-monkey-main">{policy.icon}</span>
+                <span className="flex flex-col">
+                  <span className="font-bold">{policy.label}</span>
+                  <span className="text-xs text-monkey-sub">{policy.hint}</span>
+                </span>
+              </button>
+            ))}
+          </div>
+        )}
+
+        {stage === 'ask' && (
+          <>
+            <div className="flex items-center gap-2 px-5 py-2 border-b border-monkey-sub/20 text-xs text-monkey-sub">
+              <span>{conflicts.length} conflicts</span>
+              <div className="flex-grow" />
+              <button onClick={() => setAll('local')} className="hover:text-monkey-main transition-colors">Keep all current</button>
+              <span>·</span>
+              <button onClick={() => setAll('incoming')} className="hover:text-monkey-main transition-colors">Take all from file</button>
+            </div>
+            <div className="overflow-y-auto custom-scrollbar p-5 flex flex-col gap-3">
+              {conflicts.map(conflict => (
+                <div key={conflict.id} className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                  <ConflictCopy
+                    label="Current"
+                    item={conflict.local}
+                    touched={conflict.localTouched}
+                    selected={choices.get(conflict.id) !== 'incoming'}
+                    onSelect={() => setSide(conflict.id, 'local')}
+                  />
+                  <ConflictCopy
+                    label="File"
+                    item={conflict.incoming}
+                    touched={conflict.incomingTouched}
+                    selected={choices.get(conflict.id) === 'incoming'}
+                    onSelect={() => setSide(conflict.id, 'incoming')}
+                  />
+                </div>
+              ))}
+            </div>
+            <div className="flex justify-end gap-3 p-4 border-t border-monkey-sub/20">
+              <button onClick={() => setStage('policy')} className="px-4 py-2 rounded text-monkey-sub hover:text-monkey-text transition-colors">
+                Back
+              </button>
+              <button
+                onClick={() => apply(choices)}
+                className="px-4 py-2 rounded bg-monkey-main text-monkey-bg font-bold hover:bg-white transition-colors"
+              >
+                Merge
+              </button>
+            </div>
+          </>
+        )}
+
+        {stage === 'summary' && (
+          <div className="p-5 flex flex-col gap-4">
+            <ul className="text-sm text-monkey-text flex flex-col gap-1.5">
+              {summaryLines.map(line => (
+                <li key={line} className="flex items-start gap-2">
+                  <span className="text-monkey-main">•</span>
+                  <span>{line}</span>
+                </li>
+              ))}
+            </ul>
+            <button
+              onClick={close}
+              className="px-4 py-2 rounded bg-monkey-main text-monkey-bg font-bold hover:bg-white transition-colors"
+            >
+              Done
+            </button>
+          </div>
+        )}
+      </div>
+    </div>,
+    document.body
+  );
+};
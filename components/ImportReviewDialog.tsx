@@ -0,0 +1,403 @@
+import React, { useState, useEffect } from 'react';
+import { createPortal } from 'react-dom';
+import { VocabularyItem, ParsingProfile, DefinitionScript } from '../types';
+import { ExtractionReport, SkippedLine, extractVocabulary } from '../services/pdfProcessor';
+import { SCRIPT_ORDER, SCRIPT_LABELS, LATIN_GLOSSARY_LINE, scriptCharClass } from '../services/scripts';
+import { structureDefinition } from '../services/definitions';
+import { ProfileEditor } from './ProfileEditor';
+import { ClipboardCheck, Trash2, Combine, Plus, ChevronDown, ChevronRight, AlertTriangle, SlidersHorizontal } from 'lucide-react';
+
+export interface PendingExtraction {
+  fileName: string;
+  report: ExtractionReport;
+  targetSourceId?: string; // Set when re-parsing an existing source
+}
+
+export interface ReviewedImport {
+  fileName: string;
+  items: VocabularyItem[];
+  text: string;
+  profileId: string;
+  script: DefinitionScript;
+  targetSourceId?: string;
+}
+
+interface Props {
+  files: PendingExtraction[];
+  profiles: ParsingProfile[];
+  onCommit: (imports: ReviewedImport[]) => void;
+  onCancel: () => void;
+  onSaveProfile: (profile: ParsingProfile) => void;
+  onDeleteProfile: (id: string) => void;
+}
+
+interface ReviewRow {
+  id: string;
+  word: string;
+  definition: string;
+  rawLine: string;
+  examples?: string[];
+}
+
+interface ReviewFile {
+  fileName: string;
+  rows: ReviewRow[];
+  skipped: SkippedLine[];
+  usedFallback: boolean;
+  included: boolean;
+  text: string;
+  profile: ParsingProfile; // Rules last applied, possibly unsaved
+  script: DefinitionScript;
+  targetSourceId?: string;
+}
+
+// Helper: Best guess at word / definition for a line the extractor skipped
+const splitSkippedLine = (line: string, script: DefinitionScript): { word: string; definition: string } => {
+  const pattern = script === 'latin'
+    ? LATIN_GLOSSARY_LINE
+    : new RegExp(`^[^a-zA-Z]*([a-zA-Z][a-zA-Z\\-' ]*?)\\s+((?:[a-z]{1,5}\\.\\s*)?[^a-zA-Z]*${scriptCharClass(script)}.*)$`);
+  const match = line.match(pattern);
+  if (match) return { word: match[1].trim(), definition: match[2].trim() };
+  return { word: line, definition: '' };
+};
+
+// Helper: Review state for one extraction report
+const toReviewFile = (fileName: string, report: ExtractionReport, profile: ParsingProfile, targetSourceId?: string): ReviewFile => ({
+  fileName,
+  rows: report.entries.map(e => ({ id: e.item.id, word: e.item.word, definition: e.item.definition, rawLine: e.rawLine, examples: e.item.examples })),
+  skipped: report.skipped,
+  usedFallback: report.usedFallback,
+  included: true,
+  text: report.text,
+  profile,
+  script: report.script,
+  targetSourceId
+});
+
+export const ImportReviewDialog: React.FC<Props> = ({ files, profiles, onCommit, onCancel, onSaveProfile, onDeleteProfile }) => {
+  const [reviewFiles, setReviewFiles] = useState<ReviewFile[]>(() => files.map(f => {
+    const profile = profiles.find(p => p.id === f.report.profileId) || profiles[0];
+    return toReviewFile(f.fileName, f.report, profile, f.targetSourceId);
+  }));
+  const [activeFile, setActiveFile] = useState(0);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [showSkipped, setShowSkipped] = useState(false);
+  const [showProfileEditor, setShowProfileEditor] = useState(false);
+  const [isClosing, setIsClosing] = useState(false);
+
+  const current = reviewFiles[activeFile];
+  const isComplete = (row: ReviewRow) => row.word.trim().length > 0 && row.definition.trim().length > 0;
+  const includedFiles = reviewFiles.filter(f => f.included && f.rows.some(isComplete));
+  const totalWords = includedFiles.reduce((sum, f) => sum + f.rows.filter(isComplete).length, 0);
+
+  const close = (after: () => void) => {
+    setIsClosing(true);
+    setTimeout(after, 400);
+  };
+
+  const handleCancel = () => close(onCancel);
+
+  const handleCommit = () => {
+    if (totalWords === 0) return;
+    const imports = includedFiles.map(f => ({
+      fileName: f.fileName,
+      text: f.text,
+      profileId: f.profile.id,
+      script: f.script,
+      targetSourceId: f.targetSourceId,
+      items: f.rows.filter(isComplete).map((row, index) => structureDefinition({
+        id: row.id,
+        word: row.word.trim(),
+        definition: row.definition.trim(),
+        level: 0,
+        originalIndex: index,
+        ...(row.examples ? { examples: row.examples } : {})
+      }))
+    }));
+    close(() => onCommit(imports));
+  };
+
+  const updateCurrent = (update: (file: ReviewFile) => ReviewFile) => {
+    setReviewFiles(prev => prev.map((f, i) => i === activeFile ? update(f) : f));
+  };
+
+  const switchFile = (index: number) => {
+    setActiveFile(index);
+    setSelectedIds(new Set());
+    setShowProfileEditor(false);
+  };
+
+  // Re-run extraction on the file's text; replaces any edits made to this file
+  const applyProfile = (profile: ParsingProfile, script: DefinitionScript = current.script) => {
+    const report = extractVocabulary(current.text, profile, script);
+    updateCurrent(f => ({ ...toReviewFile(f.fileName, report, profile, f.targetSourceId), included: f.included }));
+    setSelectedIds(new Set());
+  };
+
+  const handleSaveProfile = (profile: ParsingProfile) => {
+    onSaveProfile(profile);
+    applyProfile(profile);
+    setShowProfileEditor(false);
+  };
+
+  const handleDeleteProfile = (id: string) => {
+    onDeleteProfile(id);
+    applyProfile(profiles[0]);
+    setShowProfileEditor(false);
+  };
+
+  const editRow = (id: string, field: 'word' | 'definition', value: string) => {
+    updateCurrent(f => ({ ...f, rows: f.rows.map(r => r.id === id ? { ...r, [field]: value } : r) }));
+  };
+
+  const deleteRow = (id: string) => {
+    updateCurrent(f => ({ ...f, rows: f.rows.filter(r => r.id !== id) }));
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      next.delete(id);
+      return next;
+    });
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  // Merge selected rows into the first one (e.g. a definition that wrapped onto its own line)
+  const mergeSelected = () => {
+    if (selectedIds.size < 2) return;
+    updateCurrent(f => {
+      const selected = f.rows.filter(r => selectedIds.has(r.id));
+      const definitions = Array.from(new Set(selected.map(r => r.definition.trim()).filter(Boolean)));
+      const examples = selected.flatMap(r => r.examples || []);
+      const merged: ReviewRow = {
+        ...selected[0],
+        definition: definitions.join('; '),
+        rawLine: selected.map(r => r.rawLine).join(' / '),
+        examples: examples.length > 0 ? examples : undefined
+      };
+      return {
+        ...f,
+        rows: f.rows
+          .filter(r => r.id === merged.id || !selectedIds.has(r.id))
+          .map(r => r.id === merged.id ? merged : r)
+      };
+    });
+    setSelectedIds(new Set());
+  };
+
+  const addSkipped = (index: number) => {
+    updateCurrent(f => {
+      const line = f.skipped[index];
+      const guess = splitSkippedLine(line.line, f.script);
+      const row: ReviewRow = { id: Math.random().toString(36).substring(2, 9), ...guess, rawLine: line.line };
+      return { ...f, rows: [...f.rows, row], skipped: f.skipped.filter((_, i) => i !== index) };
+    });
+  };
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.code === 'Escape') handleCancel();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  const inputClass = "bg-transparent border-b border-transparent hover:border-monkey-sub/30 focus:border-monkey-main focus:outline-none px-1 py-0.5 min-w-0";
+
+  return createPortal(
+    <div
+      className={`fixed inset-0 z-[9999] flex items-center justify-center bg-black/60 backdrop-blur-sm transition-opacity duration-300 ${isClosing ? 'opacity-0' : 'opacity-100'}`}
+      onClick={(e) => { e.stopPropagation(); handleCancel(); }}
+    >
+      <div
+        className={`bg-[#2c2e31] border border-monkey-sub/30 p-6 rounded-xl max-w-4xl w-full mx-4 h-[90vh] flex flex-col ${isClosing ? 'animate-spring-out' : 'animate-spring-in'}`}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center gap-3 text-monkey-main mb-4 shrink-0">
+          <ClipboardCheck size={24} />
+          <h3 className="text-xl font-bold">Review Import</h3>
+        </div>
+
+        {/* File Tabs */}
+        {reviewFiles.length > 1 && (
+          <div className="flex gap-2 overflow-x-auto custom-scrollbar mb-3 shrink-0">
+            {reviewFiles.map((f, i) => (
+              <button
+                key={i}
+                onClick={() => switchFile(i)}
+                className={`px-3 py-1 rounded text-xs whitespace-nowrap border transition-colors ${i === activeFile ? 'border-monkey-main text-monkey-main' : 'border-monkey-sub/20 text-monkey-sub hover:text-monkey-text'} ${f.included ? '' : 'line-through opacity-50'}`}
+              >
+                {f.fileName} <span className="font-mono ml-1">{f.rows.length}</span>
+              </button>
+            ))}
+          </div>
+        )}
+
+        {/* Toolbar */}
+        <div className="flex flex-wrap items-center justify-between gap-3 mb-3 text-xs shrink-0">
+          <span className="text-monkey-sub truncate">
+            <span className="text-monkey-text">{current.fileName}</span> · {current.rows.length} pairs · {current.skipped.length} skipped lines
+          </span>
+          <div className="flex items-center gap-3">
+            <button
+              onClick={mergeSelected}
+              disabled={selectedIds.size < 2}
+              className="flex items-center gap-1 text-monkey-sub hover:text-monkey-main disabled:opacity-30 transition-colors"
+              title="Merge the selected rows into the first one"
+            >
+              <Combine size={14} /> Merge ({selectedIds.size})
+            </button>
+            <label className="flex items-center gap-1 text-monkey-sub cursor-pointer">
+              <input
+                type="checkbox"
+                checked={current.included}
+                onChange={(e) => updateCurrent(f => ({ ...f, included: e.target.checked }))}
+                className="accent-[#e2b714]"
+              />
+              Import this file
+            </label>
+          </div>
+        </div>
+
+        {/* Parsing Profile */}
+        <div className="flex flex-wrap items-center gap-3 mb-3 text-xs shrink-0">
+          <label className="flex items-center gap-2 text-monkey-sub">
+            Parsing profile
+            <select
+              value={current.profile.id}
+              onChange={(e) => {
+                const profile = profiles.find(p => p.id === e.target.value);
+                if (profile) applyProfile(profile);
+                setShowProfileEditor(false);
+              }}
+              className="bg-[#323437] border border-monkey-sub/30 rounded px-2 py-1 text-monkey-text focus:outline-none focus:border-monkey-main"
+              title="Re-extracts this file; edits to its pairs are discarded"
+            >
+              {profiles.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+              {!profiles.some(p => p.id === current.profile.id) && <option value={current.profile.id}>Unsaved rules</option>}
+            </select>
+          </label>
+          <label className="flex items-center gap-2 text-monkey-sub">
+            Definitions in
+            <select
+              value={current.script}
+              onChange={(e) => applyProfile(current.profile, e.target.value as DefinitionScript)}
+              className="bg-[#323437] border border-monkey-sub/30 rounded px-2 py-1 text-monkey-text focus:outline-none focus:border-monkey-main"
+              title="Re-extracts this file; edits to its pairs are discarded"
+            >
+              {SCRIPT_ORDER.map(script => <option key={script} value={script}>{SCRIPT_LABELS[script]}</option>)}
+            </select>
+          </label>
+          <button
+            onClick={() => setShowProfileEditor(prev => !prev)}
+            className={`flex items-center gap-1 transition-colors ${showProfileEditor ? 'text-monkey-main' : 'text-monkey-sub hover:text-monkey-main'}`}
+          >
+            <SlidersHorizontal size={14} /> Custom rules
+          </button>
+        </div>
+
+        {showProfileEditor && (
+          <div className="mb-3 shrink-0">
+            <ProfileEditor
+              key={activeFile}
+              profile={current.profile}
+              onApply={(profile) => applyProfile(profile)}
+              onSave={handleSaveProfile}
+              onDelete={handleDeleteProfile}
+            />
+          </div>
+        )}
+
+        {current.usedFallback && (
+          <div className="flex items-center gap-2 text-amber-400 bg-amber-500/10 p-2 rounded text-xs mb-3 shrink-0">
+            <AlertTriangle size={14} className="shrink-0" />
+            <span>Few lines matched the usual layout, so a looser parser was used. Check the pairs carefully.</span>
+          </div>
+        )}
+
+        <div className={`flex-grow overflow-y-auto custom-scrollbar border border-monkey-sub/20 rounded-lg ${current.included ? '' : 'opacity-40'}`}>
+          {/* Extracted Pairs */}
+          {current.rows.length === 0 && (
+            <p className="text-sm text-monkey-sub p-4">No pairs extracted. Add lines from the skipped list below.</p>
+          )}
+          {current.rows.map(row => (
+            <div key={row.id} className={`flex items-start gap-2 px-3 py-2 border-b border-monkey-sub/10 ${isComplete(row) ? '' : 'bg-monkey-error/5'}`}>
+              <input
+                type="checkbox"
+                checked={selectedIds.has(row.id)}
+                onChange={() => toggleSelected(row.id)}
+                className="mt-1.5 accent-[#e2b714] shrink-0"
+              />
+              <div className="flex-grow min-w-0">
+                <div className="flex gap-2">
+                  <input
+                    value={row.word}
+                    onChange={(e) => editRow(row.id, 'word', e.target.value)}
+                    className={`${inputClass} w-1/3 font-bold text-monkey-main`}
+                  />
+                  <input
+                    value={row.definition}
+                    onChange={(e) => editRow(row.id, 'definition', e.target.value)}
+                    className={`${inputClass} flex-grow text-monkey-text text-sm`}
+                  />
+                </div>
+                <div className="text-[10px] font-mono text-monkey-sub/50 truncate px-1 mt-0.5" title={row.rawLine}>{row.rawLine}</div>
+                {row.examples?.map((example, i) => (
+                  <div key={i} className="text-xs italic text-monkey-sub truncate px-1 mt-0.5" title={example}>{example}</div>
+                ))}
+              </div>
+              <button onClick={() => deleteRow(row.id)} className="p-1 text-monkey-sub hover:text-monkey-error transition-colors shrink-0" title="Delete">
+                <Trash2 size={14} />
+              </button>
+            </div>
+          ))}
+
+          {/* Skipped Lines */}
+          {current.skipped.length > 0 && (
+            <div className="px-3 py-2">
+              <button
+                onClick={() => setShowSkipped(prev => !prev)}
+                className="flex items-center gap-1 text-xs text-monkey-sub hover:text-monkey-text transition-colors"
+              >
+                {showSkipped ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+                {current.skipped.length} lines looked like vocabulary but were skipped
+              </button>
+              {showSkipped && current.skipped.map((line, i) => (
+                <div key={i} className="flex items-center gap-2 py-1 text-xs">
+                  <span className="text-monkey-sub/60 w-28 shrink-0">{line.reason}</span>
+                  <span className="font-mono text-monkey-sub truncate flex-grow" title={line.line}>{line.line}</span>
+                  <button onClick={() => addSkipped(i)} className="p-1 text-monkey-sub hover:text-monkey-main transition-colors shrink-0" title="Add as pair">
+                    <Plus size={14} />
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-end items-center gap-3 mt-4 shrink-0">
+          <button
+            onClick={handleCancel}
+            className="px-4 py-2 rounded text-monkey-sub hover:text-monkey-text transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleCommit}
+            disabled={totalWords === 0}
+            className="px-4 py-2 rounded bg-monkey-main text-monkey-bg font-bold hover:opacity-90 disabled:opacity-30 transition-opacity"
+          >
+            Add {totalWords} words from {includedFiles.length} {includedFiles.length === 1 ? 'file' : 'files'}
+          </button>
+        </div>
+      </div>
+    </div>,
+    document.body
+  );
+};
@@ -1,6 +1,8 @@
 import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { createPortal } from 'react-dom';
 import { VocabularyItem, Bubble } from '../types';
+import { getPhonetic, primarySense } from '../services/definitions';
+import { DefinitionView } from './DefinitionView';
 import { Shuffle, RotateCcw, X, ArrowLeft, ArrowRight, List } from 'lucide-react';
 
 interface Props {
@@ -14,6 +16,7 @@ interface Props {
   onRestore: () => void;
   onSaveProgress: (round: number, bubbles: Bubble[], activeLevels: number[]) => void;
   onUpdateLevel: (id: string, level: number) => void;
+  onRecordAnswer?: (id: string, correct: boolean, responseMs: number, confusedWithId?: string) => void;
 }
 
 const ITEMS_PER_ROUND = 6; 
@@ -28,7 +31,8 @@ export const MatchingMode: React.FC<Props> = ({
   onShuffle, 
   onRestore, 
   onSaveProgress, 
-  onUpdateLevel 
+  onUpdateLevel,
+  onRecordAnswer
 }) => {
   // Filter Logic - Initialize from saved state or default to all
   const [activeLevels, setActiveLevels] = useState<Set<number>>(() => {
@@ -76,6 +80,9 @@ export const MatchingMode: React.FC<Props> = ({
   const [inspectedId, setInspectedId] = useState<string | null>(null);
   const [isClosingInspector, setIsClosingInspector] = useState(false);
   const longPressTimer = useRef<number | null>(null);
+
+  // Response timing for the review log: measured from the previous attempt (or round start)
+  const lastAttemptAt = useRef(Date.now());
   
   // Round List Modal State
   const [showRoundList, setShowRoundList] = useState(false);
@@ -300,23 +307,19 @@ export const MatchingMode: React.FC<Props> = ({
       status: 'default'
     }));
 
-    const defBubbles: Bubble[] = slice.map(item => {
-      let defText = item.definition; 
-      if (defText.length > 50) {
-          defText = defText.substring(0, 48) + '..';
-      }
-      return {
-        id: item.id,
-        uid: item.id + '-d',
-        text: defText,
-        type: 'def',
-        matched: false,
-        status: 'default'
-      };
-    });
+    // Bubbles show only the first meaning; the full definition is in the word card
+    const defBubbles: Bubble[] = slice.map(item => ({
+      id: item.id,
+      uid: item.id + '-d',
+      text: primarySense(item),
+      type: 'def',
+      matched: false,
+      status: 'default'
+    }));
 
     const combined = [...wordBubbles, ...defBubbles].sort(() => Math.random() - 0.5);
     setBubbles(combined);
+    lastAttemptAt.current = Date.now();
     setIsRoundLoading(true); // Enable staggering for new round
     setSelectedId(null);
     setCursorIndex(0);
@@ -349,6 +352,10 @@ export const MatchingMode: React.FC<Props> = ({
     const first = bubbles.find(b => b.uid === selectedId);
     if (!first) return;
 
+    const now = Date.now();
+    const responseMs = now - lastAttemptAt.current;
+    lastAttemptAt.current = now;
+
     if (first.id === clicked.id) {
       // MATCH SUCCESS
       setBubbles(prev => prev.map(b => 
@@ -357,9 +364,14 @@ export const MatchingMode: React.FC<Props> = ({
           : b
       ));
       setSelectedId(null);
+      onRecordAnswer?.(first.id, true, responseMs);
       // NOTE: Completion check moved to useEffect to support restoration from save
     } else {
       setIsWait(true);
+      // Attribute the miss to the word side of the pair
+      const wordBubble = first.type === 'word' ? first : clicked.type === 'word' ? clicked : first;
+      const otherBubble = wordBubble === first ? clicked : first;
+      onRecordAnswer?.(wordBubble.id, false, responseMs, otherBubble.id);
       // Set to WRONG (triggers Shake)
       setBubbles(prev => prev.map(b => 
         (b.uid === first.uid || b.uid === clicked.uid) 
@@ -378,7 +390,7 @@ export const MatchingMode: React.FC<Props> = ({
         setIsWait(false);
       }, 500); 
     }
-  }, [bubbles, selectedId, isWait, inspectedId, showRoundList]);
+  }, [bubbles, selectedId, isWait, inspectedId, showRoundList, onRecordAnswer]);
 
   // --- Modal Control ---
   const handleCloseInspector = () => {
@@ -844,8 +856,14 @@ export const MatchingMode: React.FC<Props> = ({
                   </button>
 
                   <div className="text-xs text-monkey-sub uppercase tracking-widest mb-2">Word Card</div>
-                  <h2 className="text-4xl font-bold text-monkey-main mb-6 select-text">{inspectedItem.word}</h2>
-                  <p className="text-xl text-gray-200 mb-8 leading-relaxed font-medium select-text">{inspectedItem.definition}</p>
+                  <h2 className={`text-4xl font-bold text-monkey-main select-text ${getPhonetic(inspectedItem) ? 'mb-2' : 'mb-6'}`}>{inspectedItem.word}</h2>
+                  {getPhonetic(inspectedItem) && <div className="font-mono text-sm text-monkey-sub mb-6 select-text">{getPhonetic(inspectedItem)}</div>}
+                  <p className={`text-xl text-gray-200 leading-relaxed font-medium select-text ${inspectedItem.examples?.length ? 'mb-4' : 'mb-8'}`}><DefinitionView item={inspectedItem} /></p>
+                  {inspectedItem.examples && inspectedItem.examples.length > 0 && (
+                      <div className="flex flex-col gap-1 mb-8 text-sm italic text-monkey-sub select-text">
+                          {inspectedItem.examples.map((example, i) => <p key={i}>{example}</p>)}
+                      </div>
+                  )}
 
                   <div 
                     className="flex gap-4 p-2 cursor-ew-resize touch-none"
@@ -901,7 +919,7 @@ export const MatchingMode: React.FC<Props> = ({
                           >
                               <div className="flex-1 mr-4">
                                   <div className="font-bold text-monkey-main text-lg select-text">{item.word}</div>
-                                  <div className="text-sm text-monkey-sub truncate font-medium select-text">{item.definition}</div>
+                                  <div className="text-sm text-monkey-sub truncate font-medium select-text"><DefinitionView item={item} inline /></div>
                               </div>
                               
                               <div 
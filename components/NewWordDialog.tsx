@@ -0,0 +1,89 @@
+import React, { useState } from 'react';
+import { createPortal } from 'react-dom';
+import { SourceFile } from '../types';
+import { Plus } from 'lucide-react';
+
+interface Props {
+  sources: SourceFile[];
+  initialWord?: string;
+  onAdd: (word: string, definition: string, sourceId?: string) => void; // No sourceId: the "My words" source
+  onClose: () => void;
+}
+
+export const NewWordDialog: React.FC<Props> = ({ sources, initialWord = '', onAdd, onClose }) => {
+  const [word, setWord] = useState(initialWord);
+  const [definition, setDefinition] = useState('');
+  const [sourceId, setSourceId] = useState('');
+  const [isClosing, setIsClosing] = useState(false);
+
+  const canAdd = word.trim() !== '' && definition.trim() !== '';
+
+  const close = () => {
+    setIsClosing(true);
+    setTimeout(onClose, 400);
+  };
+
+  const add = () => {
+    if (!canAdd) return;
+    onAdd(word.trim(), definition.trim(), sourceId || undefined);
+    close();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    e.stopPropagation();
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault();
+      add();
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      close();
+    }
+  };
+
+  const inputClass = "bg-[#323437] border border-monkey-sub/30 rounded px-2 py-1.5 text-monkey-text focus:outline-none focus:border-monkey-main";
+
+  return createPortal(
+    <div
+      className={`fixed inset-0 z-[9999] flex items-center justify-center bg-black/50 backdrop-blur-sm transition-opacity duration-300 ${isClosing ? 'opacity-0' : 'opacity-100'}`}
+      onClick={(e) => { e.stopPropagation(); close(); }}
+      onKeyDown={handleKeyDown}
+    >
+      <div
+        className={`bg-[#2c2e31] border border-monkey-sub/30 p-6 rounded-xl max-w-md w-full mx-4 flex flex-col gap-3 ${isClosing ? 'animate-spring-out' : 'animate-spring-in'}`}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center gap-3 text-monkey-main mb-1">
+          <Plus size={22} />
+          <h3 className="text-xl font-bold">New Word</h3>
+        </div>
+
+        <input value={word} onChange={(e) => setWord(e.target.value)} placeholder="Word" spellCheck={false} autoFocus className={`${inputClass} font-bold`} />
+        <textarea value={definition} onChange={(e) => setDefinition(e.target.value)} placeholder="Definition" rows={3} className={`${inputClass} resize-y`} />
+
+        <label className="flex flex-col gap-1 text-xs text-monkey-sub">
+          Add to
+          <select value={sourceId} onChange={(e) => setSourceId(e.target.value)} className={`${inputClass} text-sm`}>
+            <option value="">My words</option>
+            {sources.filter(s => !s.manual).map(s => (
+              <option key={s.id} value={s.id}>{s.name}</option>
+            ))}
+          </select>
+        </label>
+
+        <div className="flex justify-end gap-3 mt-2">
+          <button onClick={close} className="px-4 py-2 rounded text-monkey-sub hover:text-monkey-text hover:bg-monkey-sub/10 transition-colors">
+            Cancel
+          </button>
+          <button
+            onClick={add}
+            disabled={!canAdd}
+            className="px-4 py-2 rounded bg-monkey-main text-monkey-bg font-bold hover:bg-white transition-colors disabled:opacity-40"
+          >
+            Add
+          </button>
+        </div>
+      </div>
+    </div>,
+    document.body
+  );
+};
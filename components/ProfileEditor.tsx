@@ -0,0 +1,113 @@
+import React, { useState } from 'react';
+import { ParsingProfile } from '../types';
+import { validateProfile, createCustomProfile } from '../services/parsingProfiles';
+import { Play, Save, Trash2 } from 'lucide-react';
+
+interface Props {
+  profile: ParsingProfile;
+  onApply: (profile: ParsingProfile) => void;
+  onSave: (profile: ParsingProfile) => void;
+  onDelete?: (id: string) => void;
+}
+
+// Show tabs as "\t" so they can be typed into a text input
+const displayDelimiter = (delimiter: string) => delimiter.replace(/\t/g, '\\t');
+const parseDelimiter = (input: string) => input.replace(/\\t/g, '\t');
+
+export const ProfileEditor: React.FC<Props> = ({ profile, onApply, onSave, onDelete }) => {
+  // Built-in profiles are edited as a copy
+  const [draft, setDraft] = useState<ParsingProfile>(() => profile.builtIn ? createCustomProfile(profile) : { ...profile });
+  const [stopWordsInput, setStopWordsInput] = useState(draft.stopWords.join(', '));
+
+  const usesDelimiter = draft.delimiter !== undefined;
+  const current: ParsingProfile = {
+    ...draft,
+    stopWords: stopWordsInput.split(',').map(w => w.trim()).filter(Boolean)
+  };
+  const error = validateProfile(current);
+
+  const update = (changes: Partial<ParsingProfile>) => setDraft(prev => ({ ...prev, ...changes }));
+
+  const setRuleType = (delimiter: boolean) => {
+    if (delimiter) update({ delimiter: draft.delimiter ?? '\t' });
+    else setDraft(({ delimiter: _, ...rest }) => ({ ...rest, linePattern: rest.linePattern || '^\\s*(\\S+)\\s+(.+)$' }));
+  };
+
+  const inputClass = "bg-[#323437] border border-monkey-sub/30 rounded px-2 py-1 text-monkey-text focus:outline-none focus:border-monkey-main";
+
+  return (
+    <div className="border border-monkey-sub/20 rounded-lg p-3 flex flex-col gap-3 text-xs">
+      <div className="flex flex-wrap items-center gap-3">
+        <input
+          value={draft.name}
+          onChange={(e) => update({ name: e.target.value })}
+          placeholder="Profile name"
+          className={`${inputClass} flex-grow`}
+        />
+        <div className="flex rounded overflow-hidden border border-monkey-sub/30">
+          <button onClick={() => setRuleType(false)} className={`px-2 py-1 ${!usesDelimiter ? 'bg-monkey-main text-monkey-bg' : 'text-monkey-sub'}`}>Pattern</button>
+          <button onClick={() => setRuleType(true)} className={`px-2 py-1 ${usesDelimiter ? 'bg-monkey-main text-monkey-bg' : 'text-monkey-sub'}`}>Delimiter</button>
+        </div>
+      </div>
+
+      {usesDelimiter ? (
+        <label className="flex items-center gap-2 text-monkey-sub">
+          Split each line on
+          <input
+            value={displayDelimiter(draft.delimiter || '')}
+            onChange={(e) => update({ delimiter: parseDelimiter(e.target.value) })}
+            className={`${inputClass} w-20 font-mono`}
+          />
+          <span className="text-monkey-sub/50">first part is the word, the rest the definition</span>
+        </label>
+      ) : (
+        <label className="flex flex-col gap-1 text-monkey-sub">
+          Line pattern (group 1 = word, group 2 = definition)
+          <input
+            value={draft.linePattern || ''}
+            onChange={(e) => update({ linePattern: e.target.value })}
+            spellCheck={false}
+            className={`${inputClass} font-mono`}
+          />
+        </label>
+      )}
+
+      <label className="flex flex-col gap-1 text-monkey-sub">
+        Stop words (comma-separated)
+        <input value={stopWordsInput} onChange={(e) => setStopWordsInput(e.target.value)} className={inputClass} />
+      </label>
+
+      <div className="flex flex-wrap gap-4 text-monkey-sub">
+        <label className="flex items-center gap-1 cursor-pointer">
+          <input type="checkbox" checked={draft.requireScript} onChange={(e) => update({ requireScript: e.target.checked })} className="accent-[#e2b714]" />
+          Definition must be in the definition language
+        </label>
+        <label className="flex items-center gap-1 cursor-pointer">
+          <input type="checkbox" checked={draft.skipToLastMarker} onChange={(e) => update({ skipToLastMarker: e.target.checked })} className="accent-[#e2b714]" />
+          Skip text before the last List / Unit header
+        </label>
+        <label className="flex items-center gap-1 cursor-pointer">
+          <input type="checkbox" checked={draft.streamFallback} onChange={(e) => update({ streamFallback: e.target.checked })} className="accent-[#e2b714]" />
+          Loose fallback when few lines match
+        </label>
+      </div>
+
+      <div className="flex items-center justify-between gap-3">
+        <span className="text-monkey-error">{error}</span>
+        <div className="flex items-center gap-3 shrink-0">
+          {onDelete && !profile.builtIn && (
+            <button onClick={() => onDelete(profile.id)} className="flex items-center gap-1 text-monkey-sub hover:text-monkey-error transition-colors">
+              <Trash2 size={14} /> Delete
+            </button>
+          )}
+          <button onClick={() => onApply(current)} disabled={!!error} className="flex items-center gap-1 text-monkey-sub hover:text-monkey-main disabled:opacity-30 transition-colors">
+            <Play size={14} /> Apply
+          </button>
+          <button onClick={() => onSave(current)} disabled={!!error} className="flex items-center gap-1 text-monkey-sub hover:text-monkey-main disabled:opacity-30 transition-colors">
+            <Save size={14} /> Save profile
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
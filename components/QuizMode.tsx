@@ -1,17 +1,22 @@
 import React, { useState, useEffect, useMemo, useCallback, useRef } from 'react';
-import { VocabularyItem } from '../types';
-import { CheckCircle, XCircle, ArrowRight, ArrowLeft, Shuffle, RotateCcw, FileBadge, Sliders } from 'lucide-react';
+import { VocabularyItem, StudyDirection, DistractorDifficulty, ReviewLogEntry } from '../types';
+import { resolveDirection, nextDirection, createDirectionSeed, DIRECTION_LABELS } from '../services/direction';
+import { pickDistractors, buildConfusionIndex, nextDifficulty, DIFFICULTY_LABELS } from '../services/distractors';
+import { DefinitionView } from './DefinitionView';
+import { CheckCircle, XCircle, ArrowRight, ArrowLeft, Shuffle, RotateCcw, FileBadge, Sliders, ArrowLeftRight, Gauge } from 'lucide-react';
 
 interface Props {
   data: VocabularyItem[];
-  initialState?: { currentIndex: number; score: number; answeredState: Record<number, number | null>; activeLevels?: number[] };
+  initialState?: { currentIndex: number; score: number; answeredState: Record<number, number | null>; activeLevels?: number[]; direction?: StudyDirection; difficulty?: DistractorDifficulty };
   jumpToId?: string | null;
   onExit: () => void;
   onShuffle: () => void;
   onRestore: () => void;
-  onSaveProgress: (state: { currentIndex: number; score: number; answeredState: Record<number, number | null>; activeLevels: number[] }) => void;
+  onSaveProgress: (state: { currentIndex: number; score: number; answeredState: Record<number, number | null>; activeLevels: number[]; direction: StudyDirection; difficulty: DistractorDifficulty }) => void;
   onGetSourceName: (id: string) => string | undefined;
   onUpdateLevel: (id: string, level: number) => void;
+  onRecordAnswer?: (id: string, correct: boolean, responseMs: number, confusedWithId?: string) => void;
+  history?: ReviewLogEntry[];
 }
 
 export const QuizMode: React.FC<Props> = ({ 
@@ -23,17 +28,27 @@ export const QuizMode: React.FC<Props> = ({
   onRestore, 
   onSaveProgress, 
   onGetSourceName, 
-  onUpdateLevel 
+  onUpdateLevel,
+  onRecordAnswer,
+  history
 }) => {
   // Filter Logic - Initialize from saved state or default to all
   const [activeLevels, setActiveLevels] = useState<Set<number>>(() => {
     return initialState?.activeLevels ? new Set(initialState.activeLevels) : new Set([0, 1, 2, 3]);
   });
   
+  const [direction, setDirection] = useState<StudyDirection>(initialState?.direction || 'word-def');
+  // "Mixed" picks each card's side anew every session
+  const [directionSeed] = useState(createDirectionSeed);
+  const [difficulty, setDifficulty] = useState<DistractorDifficulty>(initialState?.difficulty || 'normal');
+  
   const quizItems = useMemo(() => {
     return data.filter(item => activeLevels.has(item.level));
   }, [data, activeLevels]);
 
+  // Pairs the user has mixed up before make the strongest distractors
+  const confusions = useMemo(() => buildConfusionIndex(history || []), [history]);
+
   const [currentIndex, setCurrentIndex] = useState(initialState?.currentIndex || 0);
   const [score, setScore] = useState(initialState?.score || 0);
   const [answeredState, setAnsweredState] = useState<{ [key: number]: number | null }>(initialState?.answeredState || {}); 
@@ -59,8 +74,12 @@ export const QuizMode: React.FC<Props> = ({
   // Long press for main word
   const longPressTimer = useRef<number | null>(null);
 
+  // Response timing for the review log
+  const questionShownAt = useRef(Date.now());
+
   const currentItem = quizItems[currentIndex];
   const selectedOption = answeredState[currentIndex] ?? null;
+  const questionDirection = currentItem ? resolveDirection(direction, currentItem.id, directionSeed) : 'word-def';
 
   // Handle external jump request
   useEffect(() => {
@@ -84,8 +103,8 @@ export const QuizMode: React.FC<Props> = ({
 
   // Save progress on change
   useEffect(() => {
-    onSaveProgress({ currentIndex, score, answeredState, activeLevels: Array.from(activeLevels) });
-  }, [currentIndex, score, answeredState, activeLevels, onSaveProgress]);
+    onSaveProgress({ currentIndex, score, answeredState, activeLevels: Array.from(activeLevels), direction, difficulty });
+  }, [currentIndex, score, answeredState, activeLevels, direction, difficulty, onSaveProgress]);
 
   // Focus input when editing index
   useEffect(() => {
@@ -95,7 +114,7 @@ export const QuizMode: React.FC<Props> = ({
     }
   }, [isEditingIndex]);
 
-  // Generate Stable Options only when currentItem ID changes
+  // Generate Stable Options only when currentItem ID (or difficulty) changes
   useEffect(() => {
     if (!currentItem) {
         setCurrentOptions([]);
@@ -103,14 +122,12 @@ export const QuizMode: React.FC<Props> = ({
     }
 
     // Pick wrong options from the FULL dataset (data), not just filtered set
-    const wrongOptions = data
-      .filter(item => item.id !== currentItem.id)
-      .sort(() => 0.5 - Math.random()) 
-      .slice(0, 3);
+    const wrongOptions = pickDistractors(currentItem, data, { count: 3, difficulty, confusions });
     
     const all = [currentItem, ...wrongOptions].sort(() => 0.5 - Math.random());
     setCurrentOptions(all);
-  }, [currentItem?.id]); // Only regenerate if the Question ID changes. Ignore data updates (level changes).
+    questionShownAt.current = Date.now();
+  }, [currentItem?.id, difficulty]); // Only regenerate if the Question ID changes. Ignore data updates (level changes).
 
   const toggleFilter = (level: number) => {
       setActiveLevels(prev => {
@@ -124,11 +141,30 @@ export const QuizMode: React.FC<Props> = ({
       setScore(0);
   };
 
+  // Switching direction starts a fresh run, like changing the level filter
+  const cycleDirection = () => {
+      setDirection(prev => nextDirection(prev));
+      setCurrentIndex(0);
+      setAnsweredState({});
+      setScore(0);
+      setShowGrading(false);
+  };
+
+  // Switching difficulty also restarts, since earlier answers were against other options
+  const cycleDifficulty = () => {
+      setDifficulty(prev => nextDifficulty(prev));
+      setCurrentIndex(0);
+      setAnsweredState({});
+      setScore(0);
+      setShowGrading(false);
+  };
+
   const handleAnswer = useCallback((optionIndex: number) => {
     if (selectedOption !== null || isAnimating) return; 
 
     setAnsweredState(prev => ({ ...prev, [currentIndex]: optionIndex }));
     const isCorrect = currentOptions[optionIndex].id === currentItem.id;
+    onRecordAnswer?.(currentItem.id, isCorrect, Date.now() - questionShownAt.current, isCorrect ? undefined : currentOptions[optionIndex].id);
 
     if (isCorrect) {
       setScore(s => s + 1);
@@ -140,7 +176,7 @@ export const QuizMode: React.FC<Props> = ({
         setIsAnimating(false);
       }, 1000);
     } 
-  }, [currentIndex, currentItem, currentOptions, quizItems.length, selectedOption, isAnimating]);
+  }, [currentIndex, currentItem, currentOptions, quizItems.length, selectedOption, isAnimating, onRecordAnswer]);
 
   const handleNext = useCallback(() => {
       if (currentIndex < quizItems.length - 1) {
@@ -267,6 +303,8 @@ export const QuizMode: React.FC<Props> = ({
       if (e.key === '5') setShowSource(prev => !prev);
       if (e.key === '6') handleShuffleClick();
       if (e.key === '7') handleRestoreClick();
+      if (e.key === '8') cycleDirection();
+      if (e.key === '9') cycleDifficulty();
 
       // Options
       // Option 1: Tab
@@ -400,6 +438,22 @@ export const QuizMode: React.FC<Props> = ({
                  </button>
                  <button onClick={handleShuffleClick} className="p-2 text-monkey-sub hover:text-monkey-main transition-colors" title="Shuffle (6)"><Shuffle size={16} /></button>
                  <button onClick={handleRestoreClick} className="p-2 text-monkey-sub hover:text-monkey-main transition-colors" title="Restore Order (7)"><RotateCcw size={16} /></button>
+                 <button 
+                    onClick={cycleDirection} 
+                    className={`p-2 flex items-center gap-1 transition-colors ${direction !== 'word-def' ? 'text-monkey-text bg-monkey-sub/20 rounded' : 'text-monkey-sub hover:text-monkey-main'}`} 
+                    title="Quiz Direction (8)"
+                 >
+                    <ArrowLeftRight size={16} />
+                    <span className="text-[10px] font-bold hidden md:inline">{DIRECTION_LABELS[direction]}</span>
+                 </button>
+                 <button 
+                    onClick={cycleDifficulty} 
+                    className={`p-2 flex items-center gap-1 transition-colors ${difficulty !== 'normal' ? 'text-monkey-text bg-monkey-sub/20 rounded' : 'text-monkey-sub hover:text-monkey-main'}`} 
+                    title="Distractor Difficulty (9)"
+                 >
+                    <Gauge size={16} />
+                    <span className="text-[10px] font-bold hidden md:inline">{DIFFICULTY_LABELS[difficulty]}</span>
+                 </button>
             </div>
         </div>
 
@@ -446,7 +500,11 @@ export const QuizMode: React.FC<Props> = ({
             onMouseLeave={handleWordTouchEnd}
             className="cursor-pointer relative group inline-flex items-center justify-center"
         >
-            <h1 className="text-3xl md:text-5xl font-bold text-monkey-text break-words select-none px-2 text-center">{currentItem.word}</h1>
+            {questionDirection === 'word-def' ? (
+                <h1 className="text-3xl md:text-5xl font-bold text-monkey-text break-words select-none px-2 text-center">{currentItem.word}</h1>
+            ) : (
+                <h1 className="text-2xl md:text-3xl font-bold text-monkey-text break-words select-none px-2 text-center leading-snug"><DefinitionView item={currentItem} /></h1>
+            )}
             
             {/* Traffic Light Grading (Simplified) */}
             {showGrading && (
@@ -472,7 +530,7 @@ export const QuizMode: React.FC<Props> = ({
                 {onGetSourceName(currentItem.sourceId)}
             </p>
         )}
-        <p className="text-monkey-sub italic text-sm mt-8 opacity-50">选择正确的释义</p>
+        <p className="text-monkey-sub italic text-sm mt-8 opacity-50">{questionDirection === 'word-def' ? '选择正确的释义' : '选择正确的单词'}</p>
       </div>
 
       <div className="grid grid-cols-1 gap-3 md:gap-4 w-full mb-8">
@@ -503,7 +561,11 @@ export const QuizMode: React.FC<Props> = ({
               className={btnClass}
             >
               <div className="flex items-start justify-between">
-                <span className="text-base md:text-lg leading-snug pr-4">{opt.definition}</span>
+                {questionDirection === 'word-def' ? (
+                    <DefinitionView item={opt} inline className="text-base md:text-lg leading-snug pr-4" />
+                ) : (
+                    <span className="text-lg md:text-xl font-bold leading-snug pr-4">{opt.word}</span>
+                )}
                 {showResult && isCorrect && <CheckCircle className="text-green-500 shrink-0 ml-2" size={20} />}
                 {showResult && isSelected && !isCorrect && <XCircle className="text-monkey-error shrink-0 ml-2" size={20} />}
               </div>
@@ -0,0 +1,176 @@
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { VocabularyItem, ReviewRating } from '../types';
+import { buildDueQueue, formatInterval } from '../services/scheduler';
+import { getPhonetic } from '../services/definitions';
+import { DefinitionView } from './DefinitionView';
+import { CalendarCheck, FileBadge } from 'lucide-react';
+
+interface Props {
+  data: VocabularyItem[];
+  onExit: () => void;
+  onReview: (id: string, rating: ReviewRating, responseMs: number) => void;
+  onGetSourceName: (id: string) => string | undefined;
+}
+
+const RATINGS: { rating: ReviewRating; label: string; key: string; className: string }[] = [
+  { rating: 'again', label: 'Again', key: '1', className: 'border-monkey-error/50 text-monkey-error hover:bg-monkey-error/10' },
+  { rating: 'hard', label: 'Hard', key: '2', className: 'border-monkey-sub/50 text-monkey-text hover:bg-monkey-sub/10' },
+  { rating: 'good', label: 'Good', key: '3', className: 'border-monkey-main/50 text-monkey-main hover:bg-monkey-main/10' },
+  { rating: 'easy', label: 'Easy', key: '4', className: 'border-green-500/50 text-green-400 hover:bg-green-500/10' },
+];
+
+export const ReviewMode: React.FC<Props> = ({ data, onExit, onReview, onGetSourceName }) => {
+  // Queue is built once per session; "Again" cards are re-appended to the end
+  const [queue, setQueue] = useState<string[]>(() => buildDueQueue(data).map(item => item.id));
+  const [position, setPosition] = useState(0);
+  const [isRevealed, setIsRevealed] = useState(false);
+  const [showSource, setShowSource] = useState(false);
+  const [reviewedCount, setReviewedCount] = useState(0);
+
+  // Resolve the current card from LIVE data so level changes are reflected
+  const dataById = useMemo(() => new Map(data.map(item => [item.id, item])), [data]);
+  const currentCard = position < queue.length ? dataById.get(queue[position]) : undefined;
+  const remaining = Math.max(0, queue.length - position);
+
+  // Response timing for the review log
+  const cardShownAt = useRef(Date.now());
+  useEffect(() => {
+    cardShownAt.current = Date.now();
+  }, [position]);
+
+  const handleRate = useCallback((rating: ReviewRating) => {
+    if (!currentCard || !isRevealed) return;
+    onReview(currentCard.id, rating, Date.now() - cardShownAt.current);
+    if (rating === 'again') {
+      setQueue(prev => [...prev, currentCard.id]);
+    }
+    setReviewedCount(c => c + 1);
+    setPosition(p => p + 1);
+    setIsRevealed(false);
+  }, [currentCard, isRevealed, onReview]);
+
+  // Skip ids whose item disappeared (source disabled / deleted) mid-session
+  useEffect(() => {
+    if (position < queue.length && !dataById.has(queue[position])) {
+      setPosition(p => p + 1);
+    }
+  }, [position, queue, dataById]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.code === 'Escape') {
+        onExit();
+        return;
+      }
+      if (e.code === 'Space') {
+        e.preventDefault();
+        setIsRevealed(prev => !prev);
+        return;
+      }
+      if (e.key === '5') setShowSource(prev => !prev);
+
+      const match = RATINGS.find(r => r.key === e.key);
+      if (match) {
+        handleRate(match.rating);
+      } else if (e.code === 'Enter' && isRevealed) {
+        e.preventDefault();
+        handleRate('good');
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [handleRate, isRevealed, onExit]);
+
+  if (!currentCard) {
+    return (
+      <div className="flex flex-col items-center justify-center h-full text-center animate-game-pop-in">
+        <CalendarCheck size={48} className="text-green-500 mb-4" />
+        <h2 className="text-2xl font-bold text-monkey-text mb-2">
+          {reviewedCount > 0 ? 'Review complete' : 'Nothing due right now'}
+        </h2>
+        <p className="text-monkey-sub text-sm">
+          {reviewedCount > 0 ? `${reviewedCount} reviews this session.` : 'Come back later or study new words in another mode.'}
+        </p>
+        <button onClick={onExit} className="mt-8 text-monkey-sub underline">Back</button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col items-center justify-center w-full max-w-2xl mx-auto h-full px-2 md:px-4 select-none py-2 md:py-6 animate-game-pop-in">
+
+      {/* Top Controls */}
+      <div className="w-full flex justify-between items-center mb-4 z-30">
+        <div className="flex items-center gap-2 text-monkey-sub text-xs font-mono">
+          <CalendarCheck size={16} className="text-monkey-main" />
+          <span><span className="text-monkey-main">{remaining}</span> left</span>
+          <span className="text-monkey-sub/50">·</span>
+          <span>{reviewedCount} done</span>
+        </div>
+        <button
+          onClick={() => setShowSource(!showSource)}
+          className={`p-2 transition-colors ${showSource ? 'text-monkey-text bg-monkey-sub/20 rounded' : 'text-monkey-sub hover:text-monkey-main'}`}
+          title="Toggle Source File (5)"
+        >
+          <FileBadge size={18} />
+        </button>
+      </div>
+
+      {/* Card */}
+      <div
+        key={`${currentCard.id}-${position}`}
+        className="w-full relative flex-grow min-h-[40vh] md:h-96 md:flex-grow-0 bg-[#2c2e31] border border-monkey-sub/20 rounded-xl cursor-pointer animate-pop-in"
+        onClick={() => setIsRevealed(prev => !prev)}
+      >
+        {showSource && currentCard.sourceId && (
+          <div className="absolute top-4 right-4 text-[10px] bg-monkey-sub/10 text-monkey-sub px-2 py-1 rounded max-w-[40%] truncate">
+            {onGetSourceName(currentCard.sourceId)}
+          </div>
+        )}
+        <div className="absolute top-4 left-4 flex gap-1">
+          {[1, 2, 3].map(l => (
+            <div
+              key={l}
+              className={`w-3 h-3 rounded-full border border-monkey-sub/50 ${currentCard.level >= l ? (currentCard.level === 3 ? 'bg-green-500 border-green-500' : 'bg-monkey-main border-monkey-main') : 'bg-transparent'}`}
+            ></div>
+          ))}
+        </div>
+
+        <div className="w-full h-full flex flex-col items-center justify-center p-6 md:p-8 text-center">
+          <span className="text-monkey-sub text-xs uppercase tracking-widest mb-4 opacity-50">Word</span>
+          <h2 className={`text-3xl md:text-5xl font-bold text-monkey-main break-words max-w-full ${getPhonetic(currentCard) ? 'mb-2' : 'mb-6'}`}>{currentCard.word}</h2>
+          {getPhonetic(currentCard) && <span className="font-mono text-sm text-monkey-sub mb-6">{getPhonetic(currentCard)}</span>}
+          <p className="text-lg md:text-xl leading-relaxed max-h-[40vh] md:max-h-40 overflow-y-auto custom-scrollbar">
+            <span className={`rounded px-1 ${isRevealed ? 'bg-transparent text-gray-200' : 'bg-[#3f4145] text-transparent'}`}>
+              <DefinitionView item={currentCard} />
+            </span>
+          </p>
+        </div>
+      </div>
+
+      {/* Rating Buttons */}
+      <div className="grid grid-cols-4 gap-2 md:gap-3 w-full mt-6 md:mt-10">
+        {RATINGS.map(({ rating, label, key, className }) => (
+          <button
+            key={rating}
+            onClick={() => handleRate(rating)}
+            disabled={!isRevealed}
+            className={`flex flex-col items-center gap-1 py-3 rounded-lg border transition-all active:scale-95 disabled:opacity-30 disabled:pointer-events-none ${className}`}
+          >
+            <span className="font-bold text-sm">{label}</span>
+            <span className="text-[10px] font-mono opacity-60">{formatInterval(currentCard, rating)}</span>
+            <span className="text-[10px] font-mono text-monkey-sub/40 hidden md:inline">{key}</span>
+          </button>
+        ))}
+      </div>
+
+      {/* Keyboard Legend */}
+      <div className="mt-4 text-[10px] text-monkey-sub/30 flex gap-4 pointer-events-none hidden md:flex">
+        <span>Space: Flip</span>
+        <span>1-4: Rate</span>
+        <span>Enter: Good</span>
+        <span>Esc: Exit</span>
+      </div>
+    </div>
+  );
+};
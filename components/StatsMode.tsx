@@ -0,0 +1,177 @@
+import React, { useEffect, useMemo } from 'react';
+import { VocabularyItem, SourceFile, ReviewLogEntry, GameMode } from '../types';
+import { levelsBySource, dailyReviewCounts, accuracyByMode, hardestWords } from '../services/stats';
+import { DefinitionView } from './DefinitionView';
+import { BarChart3, Flame, Target, AlertTriangle } from 'lucide-react';
+
+interface Props {
+  data: VocabularyItem[];
+  sources: SourceFile[];
+  history: ReviewLogEntry[];
+  onExit: () => void;
+}
+
+const HEATMAP_WEEKS = 15;
+const TREND_DAYS = 14;
+
+const LEVEL_COLORS = ['bg-monkey-sub/40', 'bg-monkey-main/40', 'bg-monkey-main', 'bg-green-500'];
+
+const MODE_LABELS: Partial<Record<GameMode, string>> = {
+  [GameMode.FLASHCARD]: 'Flashcards',
+  [GameMode.QUIZ]: 'Quiz',
+  [GameMode.MATCHING]: 'Matching',
+  [GameMode.REVIEW]: 'Review',
+  [GameMode.TYPING]: 'Spelling',
+  [GameMode.CLOZE]: 'Cloze',
+};
+
+// Helper: Heatmap cell intensity relative to the busiest day
+const heatClass = (count: number, max: number) => {
+  if (count === 0) return 'bg-monkey-sub/10';
+  const ratio = count / max;
+  if (ratio > 0.75) return 'bg-monkey-main';
+  if (ratio > 0.5) return 'bg-monkey-main/70';
+  if (ratio > 0.25) return 'bg-monkey-main/45';
+  return 'bg-monkey-main/25';
+};
+
+const Panel = ({ title, icon, children }: { title: string, icon: React.ReactNode, children: React.ReactNode }) => (
+  <div className="bg-[#2c2e31] border border-monkey-sub/20 rounded-xl p-4 md:p-5">
+    <div className="flex items-center gap-2 text-monkey-sub text-xs uppercase tracking-wider mb-4">
+      {icon}
+      <span>{title}</span>
+    </div>
+    {children}
+  </div>
+);
+
+export const StatsMode: React.FC<Props> = ({ data, sources, history, onExit }) => {
+  const sourceRows = useMemo(() => levelsBySource(data, sources), [data, sources]);
+  const heatmap = useMemo(() => dailyReviewCounts(history, HEATMAP_WEEKS * 7), [history]);
+  const accuracy = useMemo(() => accuracyByMode(history, TREND_DAYS), [history]);
+  const hardest = useMemo(() => hardestWords(data, history, 10), [data, history]);
+
+  const maxDaily = Math.max(1, ...heatmap.map(d => d.count));
+  const totalReviews = history.length;
+  const reviewsToday = heatmap.length > 0 ? heatmap[heatmap.length - 1].count : 0;
+  const learned = data.filter(item => item.level === 3).length;
+
+  // Leading blanks so each heatmap column starts on Sunday
+  const heatmapOffset = heatmap.length > 0 ? new Date(heatmap[0].date).getDay() : 0;
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.code === 'Escape') onExit();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onExit]);
+
+  return (
+    <div className="w-full max-w-4xl mx-auto flex flex-col h-full pt-4 animate-game-pop-in">
+      {/* Header */}
+      <div className="flex justify-between items-center mb-4 border-b border-monkey-sub/20 pb-3 shrink-0">
+        <div>
+          <h2 className="text-2xl font-bold text-monkey-main">Statistics</h2>
+          <p className="text-xs text-monkey-sub">
+            {totalReviews} answers logged · {reviewsToday} today · {learned}/{data.length} mastered
+          </p>
+        </div>
+        <button onClick={onExit} className="text-monkey-sub hover:text-monkey-text text-sm underline">Exit</button>
+      </div>
+
+      <div className="flex-grow overflow-y-auto custom-scrollbar pb-6 flex flex-col gap-4">
+
+        {/* Words per level per source */}
+        <Panel title="Levels by source" icon={<BarChart3 size={14} />}>
+          {sourceRows.length === 0 ? (
+            <p className="text-sm text-monkey-sub">No words yet.</p>
+          ) : (
+            <div className="flex flex-col gap-3">
+              {sourceRows.map(row => (
+                <div key={row.sourceId}>
+                  <div className="flex justify-between text-xs mb-1">
+                    <span className="text-monkey-text truncate mr-4">{row.name}</span>
+                    <span className="text-monkey-sub font-mono shrink-0">
+                      {row.counts.map((c, l) => <span key={l} className="ml-2">{l}:{c}</span>)}
+                    </span>
+                  </div>
+                  <div className="flex h-2 w-full rounded-full overflow-hidden bg-monkey-sub/10">
+                    {row.counts.map((c, l) => c > 0 && (
+                      <div key={l} className={LEVEL_COLORS[l]} style={{ width: `${(c / row.total) * 100}%` }} title={`Level ${l}: ${c}`} />
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </Panel>
+
+        {/* Daily reviews heatmap */}
+        <Panel title={`Daily reviews (last ${HEATMAP_WEEKS} weeks)`} icon={<Flame size={14} />}>
+          <div className="overflow-x-auto custom-scrollbar">
+            <div className="grid grid-rows-7 grid-flow-col gap-1 w-max">
+              {Array.from({ length: heatmapOffset }).map((_, i) => <div key={`pad-${i}`} className="w-3 h-3" />)}
+              {heatmap.map(day => (
+                <div
+                  key={day.date}
+                  className={`w-3 h-3 rounded-sm ${heatClass(day.count, maxDaily)}`}
+                  title={`${new Date(day.date).toLocaleDateString()}: ${day.count} answers`}
+                />
+              ))}
+            </div>
+          </div>
+        </Panel>
+
+        {/* Accuracy trend per mode */}
+        <Panel title={`Accuracy by mode (last ${TREND_DAYS} days)`} icon={<Target size={14} />}>
+          {accuracy.length === 0 ? (
+            <p className="text-sm text-monkey-sub">Answer some quiz, matching or review questions to see trends.</p>
+          ) : (
+            <div className="flex flex-col gap-4">
+              {accuracy.map(acc => (
+                <div key={acc.mode} className="flex items-end gap-4">
+                  <div className="w-28 shrink-0">
+                    <div className="text-sm text-monkey-text">{MODE_LABELS[acc.mode] || acc.mode}</div>
+                    <div className="text-xs text-monkey-sub font-mono">
+                      {Math.round((acc.correct / acc.total) * 100)}% of {acc.total}
+                    </div>
+                  </div>
+                  <div className="flex items-end gap-1 h-10 flex-grow">
+                    {acc.points.map(p => (
+                      <div
+                        key={p.date}
+                        className={`flex-1 rounded-sm ${p.total === 0 ? 'bg-monkey-sub/10' : 'bg-monkey-main'}`}
+                        style={{ height: p.total === 0 ? '4px' : `${Math.max(8, (p.correct / p.total) * 100)}%` }}
+                        title={p.total === 0 ? 'No answers' : `${new Date(p.date).toLocaleDateString()}: ${p.correct}/${p.total}`}
+                      />
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </Panel>
+
+        {/* Hardest words */}
+        <Panel title="Hardest words" icon={<AlertTriangle size={14} />}>
+          {hardest.length === 0 ? (
+            <p className="text-sm text-monkey-sub">No mistakes recorded yet.</p>
+          ) : (
+            <div className="flex flex-col">
+              {hardest.map(({ item, failures, attempts }) => (
+                <div key={item.id} className="flex justify-between items-center py-2 border-b border-monkey-sub/10 last:border-0">
+                  <div className="min-w-0 mr-4">
+                    <span className="font-bold text-monkey-main mr-3">{item.word}</span>
+                    <DefinitionView item={item} inline className="text-sm text-monkey-sub truncate" />
+                  </div>
+                  <span className="text-xs font-mono text-monkey-error shrink-0">{failures}/{attempts} missed</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </Panel>
+      </div>
+    </div>
+  );
+};
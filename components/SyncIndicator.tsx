@@ -0,0 +1,131 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { SyncStatus } from '../services/sync';
+import { Cloud, CloudOff, RefreshCw, AlertTriangle, Check } from 'lucide-react';
+
+interface Props {
+  status: SyncStatus;
+  serverUrl: string;
+  deviceId?: string;
+  onConnect: (url: string) => void;
+  onDisconnect: () => void;
+  onSyncNow: () => void;
+}
+
+const PHASE_LABELS: Record<SyncStatus['phase'], string> = {
+  off: 'Sync off',
+  syncing: 'Syncing',
+  synced: 'Synced',
+  offline: 'Server unreachable',
+  error: 'Sync failed'
+};
+
+// Header button showing the sync state; opens a small panel to set up the LAN server
+export const SyncIndicator: React.FC<Props> = ({ status, serverUrl, deviceId, onConnect, onDisconnect, onSyncNow }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [draftUrl, setDraftUrl] = useState(serverUrl || 'http://');
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setDraftUrl(serverUrl || 'http://');
+    const handlePointer = (e: PointerEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) setIsOpen(false);
+    };
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.code === 'Escape') setIsOpen(false);
+    };
+    window.addEventListener('pointerdown', handlePointer);
+    window.addEventListener('keydown', handleKeyDown);
+    return () => {
+      window.removeEventListener('pointerdown', handlePointer);
+      window.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [isOpen, serverUrl]);
+
+  const icon = {
+    off: <CloudOff size={14} />,
+    syncing: <RefreshCw size={14} className="animate-spin" />,
+    synced: <Cloud size={14} />,
+    offline: <CloudOff size={14} className="text-monkey-error" />,
+    error: <AlertTriangle size={14} className="text-monkey-error" />
+  }[status.phase];
+
+  const connect = () => {
+    const url = draftUrl.trim();
+    if (!/^https?:\/\/[^/\s]+/.test(url)) return;
+    onConnect(url);
+  };
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="text-xs text-monkey-sub hover:text-monkey-main flex items-center gap-1 transition-colors"
+        title={status.message || PHASE_LABELS[status.phase]}
+      >
+        {icon}
+        <span className="hidden sm:inline">Sync</span>
+      </button>
+
+      {isOpen && (
+        <div
+          className="absolute right-0 top-full mt-2 w-72 z-50 bg-[#2c2e31] border border-monkey-sub/30 rounded-lg shadow-xl p-4 text-sm flex flex-col gap-3 animate-fade-in-up"
+          onKeyDown={(e) => e.stopPropagation()}
+        >
+          <div className="flex items-center gap-2 text-monkey-text">
+            {icon}
+            <span className="font-bold">{PHASE_LABELS[status.phase]}</span>
+            {status.lastSynced && status.phase !== 'off' && (
+              <span className="ml-auto text-[10px] text-monkey-sub">{new Date(status.lastSynced).toLocaleTimeString()}</span>
+            )}
+          </div>
+          {status.message && <p className="text-xs text-monkey-error break-words">{status.message}</p>}
+
+          {serverUrl ? (
+            <>
+              <p className="text-xs text-monkey-sub break-all">{serverUrl}</p>
+              <div className="flex gap-2">
+                <button
+                  onClick={onSyncNow}
+                  disabled={status.phase === 'syncing'}
+                  className="flex-1 flex items-center justify-center gap-1 px-3 py-1.5 rounded bg-monkey-main text-monkey-bg font-bold hover:bg-white transition-colors disabled:opacity-50"
+                >
+                  <RefreshCw size={14} /> Sync now
+                </button>
+                <button
+                  onClick={onDisconnect}
+                  className="px-3 py-1.5 rounded text-monkey-sub border border-monkey-sub/30 hover:text-monkey-error hover:border-monkey-error transition-colors"
+                >
+                  Turn off
+                </button>
+              </div>
+            </>
+          ) : (
+            <>
+              <p className="text-xs text-monkey-sub">
+                Share progress with your other devices through a sync server on your network (<span className="font-mono">npm run sync-server</span>).
+              </p>
+              <div className="flex gap-2">
+                <input
+                  value={draftUrl}
+                  onChange={(e) => setDraftUrl(e.target.value)}
+                  onKeyDown={(e) => { if (e.key === 'Enter') connect(); }}
+                  placeholder="http://192.168.1.10:8787"
+                  className="flex-1 min-w-0 bg-[#323437] border border-monkey-sub/30 rounded px-2 py-1.5 text-monkey-text font-mono text-xs outline-none focus:border-monkey-main"
+                />
+                <button
+                  onClick={connect}
+                  className="px-3 py-1.5 rounded bg-monkey-main text-monkey-bg font-bold hover:bg-white transition-colors"
+                  title="Connect"
+                >
+                  <Check size={14} />
+                </button>
+              </div>
+            </>
+          )}
+          {deviceId && <p className="text-[10px] text-monkey-sub/60 font-mono">Device {deviceId}</p>}
+        </div>
+      )}
+    </div>
+  );
+};
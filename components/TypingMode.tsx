@@ -0,0 +1,349 @@
+import React, { useState, useEffect, useMemo, useCallback, useRef } from 'react';
+import { VocabularyItem } from '../types';
+import { isAnswerCorrect, diffAnswer, buildHint, CharStatus } from '../services/spelling';
+import { DefinitionView } from './DefinitionView';
+import { useAnswerRound } from './useAnswerRound';
+import { ArrowRight, ArrowLeft, Shuffle, RotateCcw, FileBadge, Lightbulb, CheckCircle, XCircle } from 'lucide-react';
+
+interface Props {
+  data: VocabularyItem[];
+  initialState?: { index: number; activeLevels?: number[] };
+  jumpToId?: string | null;
+  onExit: () => void;
+  onShuffle: () => void;
+  onRestore: () => void;
+  onSaveProgress: (state: { index: number; activeLevels: number[] }) => void;
+  onGetSourceName: (id: string) => string | undefined;
+  onUpdateLevel: (id: string, level: number) => void;
+  onRecordAnswer?: (id: string, correct: boolean, responseMs: number, levelAfter?: number) => void;
+}
+
+type AnswerResult = { typed: string; correct: boolean };
+
+const DIFF_STYLES: Record<CharStatus, string> = {
+  match: 'text-green-400',
+  wrong: 'text-monkey-error underline decoration-2',
+  missing: 'text-monkey-sub/60 underline decoration-dotted',
+  extra: 'text-monkey-error line-through opacity-70',
+};
+
+export const TypingMode: React.FC<Props> = ({
+  data,
+  initialState,
+  jumpToId,
+  onExit,
+  onShuffle,
+  onRestore,
+  onSaveProgress,
+  onGetSourceName,
+  onUpdateLevel,
+  onRecordAnswer
+}) => {
+  // Filter Logic - Initialize from saved state or default to all
+  const [activeLevels, setActiveLevels] = useState<Set<number>>(() => {
+    return initialState?.activeLevels ? new Set(initialState.activeLevels) : new Set([0, 1, 2, 3]);
+  });
+
+  const filteredData = useMemo(() => {
+    return data.filter(item => activeLevels.has(item.level));
+  }, [data, activeLevels]);
+
+  const { index, currentItem, isPinned, isFinished, roundSize, pin, goTo, advance, startRound } = useAnswerRound(filteredData, initialState?.index || 0);
+  const [input, setInput] = useState('');
+  const [result, setResult] = useState<AnswerResult | null>(null);
+  const [hintLevel, setHintLevel] = useState(0); // 0: none, 1: first letter, 2: first letter + length
+  const [showSource, setShowSource] = useState(false);
+  const [score, setScore] = useState(0);
+
+  const inputRef = useRef<HTMLInputElement>(null);
+  const questionShownAt = useRef(Date.now());
+
+  // Handle external jump request
+  useEffect(() => {
+    if (jumpToId && filteredData.length > 0) {
+      const targetIndex = filteredData.findIndex(item => item.id === jumpToId);
+      if (targetIndex !== -1) goTo(targetIndex);
+    }
+  }, [jumpToId, filteredData]);
+
+  // Save progress on change
+  useEffect(() => {
+    onSaveProgress({ index, activeLevels: Array.from(activeLevels) });
+  }, [index, activeLevels, onSaveProgress]);
+
+  // Fresh question: clear input, hints and timer. A new round can start on the same word.
+  useEffect(() => {
+    setInput('');
+    setResult(null);
+    setHintLevel(0);
+    questionShownAt.current = Date.now();
+    inputRef.current?.focus();
+  }, [currentItem?.id, isFinished]);
+
+  const toggleFilter = (level: number) => {
+    setActiveLevels(prev => {
+      const next = new Set(prev);
+      if (next.has(level)) next.delete(level);
+      else next.add(level);
+      return next.size === 0 ? prev : next;
+    });
+    startRound();
+    setScore(0);
+  };
+
+  const restartRound = () => {
+    startRound();
+    setScore(0);
+  };
+
+  const handleSubmit = useCallback(() => {
+    if (!currentItem) return;
+
+    // Second Enter after an answer moves on
+    if (result) {
+      advance();
+      return;
+    }
+    if (!input.trim()) return;
+
+    const correct = isAnswerCorrect(input, currentItem.word);
+    // A failed spelling demotes the word one level
+    const demote = !correct && currentItem.level > 0;
+    const levelAfter = demote ? currentItem.level - 1 : currentItem.level;
+
+    onRecordAnswer?.(currentItem.id, correct, Date.now() - questionShownAt.current, levelAfter);
+    pin(currentItem);
+    setResult({ typed: input, correct });
+    if (correct) setScore(s => s + 1);
+    if (demote) onUpdateLevel(currentItem.id, levelAfter);
+  }, [currentItem, result, input, advance, pin, onRecordAnswer, onUpdateLevel]);
+
+  const handleHint = useCallback(() => {
+    if (result) return;
+    setHintLevel(prev => Math.min(prev + 1, 2));
+    inputRef.current?.focus();
+  }, [result]);
+
+  const handleShuffleClick = () => {
+    startRound();
+    setScore(0);
+    onShuffle();
+  };
+
+  const handleRestoreClick = () => {
+    startRound();
+    setScore(0);
+    onRestore();
+  };
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.code === 'Escape') {
+        onExit();
+      } else if (isFinished) {
+        if (e.code === 'Enter') restartRound();
+      } else if (e.code === 'Enter') {
+        e.preventDefault();
+        handleSubmit();
+      } else if (e.code === 'Tab') {
+        // Tab: reveal next hint (first letter, then length)
+        e.preventDefault();
+        handleHint();
+      } else if (result && e.code === 'ArrowRight') {
+        advance();
+      } else if (result && e.code === 'ArrowLeft') {
+        goTo(index - 1);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [handleSubmit, handleHint, onExit, isFinished, result, index, goTo, advance]);
+
+  if (isFinished) {
+    return (
+      <div className="flex flex-col items-center justify-center h-full text-center animate-game-pop-in">
+        <CheckCircle size={48} className="text-green-500 mb-4" />
+        <h2 className="text-2xl font-bold text-monkey-text mb-2">Round complete</h2>
+        <p className="text-monkey-sub text-sm">
+          <span className="text-monkey-main font-mono">{score}</span> of {roundSize} words spelled correctly.
+        </p>
+        <div className="flex gap-4 mt-8">
+          <button
+            onClick={restartRound}
+            className="flex items-center gap-2 px-6 py-3 rounded bg-monkey-main text-monkey-bg font-bold hover:opacity-90 transition-opacity select-none"
+          >
+            <RotateCcw size={18} /> Again
+          </button>
+          <button onClick={onExit} className="text-monkey-sub underline">Back</button>
+        </div>
+      </div>
+    );
+  }
+
+  if (filteredData.length === 0 && !isPinned) {
+    return (
+      <div className="flex flex-col items-center justify-center h-full text-center animate-game-pop-in">
+        <h2 className="text-2xl font-bold text-monkey-sub mb-4">No cards in selected levels</h2>
+        <div className="flex gap-2 justify-center">
+          {[0, 1, 2, 3].map(l => (
+            <button key={l} onClick={() => toggleFilter(l)} className={`w-8 h-8 rounded border text-xs ${activeLevels.has(l) ? 'bg-[#3e4044] text-gray-200 border-monkey-sub/50' : 'bg-transparent text-monkey-sub border-monkey-sub/20'}`}>
+              {l}
+            </button>
+          ))}
+        </div>
+        <button onClick={onExit} className="mt-8 text-monkey-sub underline">Back</button>
+      </div>
+    );
+  }
+
+  if (!currentItem) return null;
+
+  const diff = result && !result.correct ? diffAnswer(result.typed, currentItem.word) : null;
+
+  return (
+    <div className="w-full max-w-2xl mx-auto flex flex-col items-center h-full pt-12 md:pt-16 px-2 md:px-4 animate-game-pop-in">
+
+      <div className="w-full flex justify-between items-end border-b border-monkey-sub/20 pb-2 md:pb-4 mb-4 md:mb-8 select-none relative">
+        {/* Controls */}
+        <div className="absolute -top-10 md:-top-12 left-0 right-0 flex justify-between items-center">
+          {/* Filters */}
+          <div className="flex gap-1">
+            {[0, 1, 2, 3].map(level => (
+              <button
+                key={level}
+                onClick={() => toggleFilter(level)}
+                className={`w-7 h-7 rounded flex items-center justify-center text-xs font-bold transition-all ${
+                  activeLevels.has(level)
+                    ? 'bg-[#3e4044] text-gray-200 border border-monkey-sub/50'
+                    : 'bg-transparent text-monkey-sub hover:text-gray-300 border border-monkey-sub/20'
+                }`}
+              >
+                {level}
+              </button>
+            ))}
+          </div>
+
+          {/* Actions */}
+          <div className="flex gap-2">
+            <button
+              onClick={handleHint}
+              disabled={!!result || hintLevel >= 2}
+              className="p-2 text-monkey-sub hover:text-monkey-main transition-colors disabled:opacity-30"
+              title="Hint (Tab)"
+            >
+              <Lightbulb size={16} />
+            </button>
+            <button
+              onClick={() => setShowSource(!showSource)}
+              className={`p-2 transition-colors ${showSource ? 'text-monkey-text bg-monkey-sub/20 rounded' : 'text-monkey-sub hover:text-monkey-main'}`}
+              title="Toggle Source File"
+            >
+              <FileBadge size={16} />
+            </button>
+            <button onClick={handleShuffleClick} className="p-2 text-monkey-sub hover:text-monkey-main transition-colors" title="Shuffle"><Shuffle size={16} /></button>
+            <button onClick={handleRestoreClick} className="p-2 text-monkey-sub hover:text-monkey-main transition-colors" title="Restore Order"><RotateCcw size={16} /></button>
+          </div>
+        </div>
+
+        <div>
+          <span className="text-xs text-monkey-sub uppercase block mb-1">Word</span>
+          <span className="text-xl font-mono text-monkey-main">
+            {Math.min(index + 1, Math.max(filteredData.length, 1))} <span className="text-monkey-sub">/ {filteredData.length}</span>
+          </span>
+        </div>
+        <div className="text-right">
+          <span className="text-xs text-monkey-sub uppercase block mb-1">Score</span>
+          <span className="text-xl font-mono text-monkey-text">{score}</span>
+        </div>
+      </div>
+
+      {/* Prompt */}
+      <div className="mb-6 md:mb-10 text-center flex-grow flex flex-col justify-center w-full items-center">
+        <p className="text-2xl md:text-3xl font-bold text-monkey-text leading-snug px-2"><DefinitionView item={currentItem} /></p>
+
+        {showSource && currentItem.sourceId && (
+          <p className="text-xs text-monkey-sub mt-4 bg-monkey-sub/10 px-2 py-1 rounded inline-block self-center">
+            {onGetSourceName(currentItem.sourceId)}
+          </p>
+        )}
+
+        <p className="text-monkey-sub font-mono tracking-[0.3em] mt-6 h-6">
+          {hintLevel > 0 && !result ? buildHint(currentItem.word, hintLevel >= 2) : ''}
+        </p>
+      </div>
+
+      {/* Answer */}
+      <div className="w-full mb-8">
+        <input
+          ref={inputRef}
+          type="text"
+          value={input}
+          onChange={(e) => !result && setInput(e.target.value)}
+          readOnly={!!result}
+          placeholder="Type the English word..."
+          autoComplete="off"
+          autoCorrect="off"
+          autoCapitalize="off"
+          spellCheck={false}
+          className={`w-full bg-[#2c2e31] border-2 rounded-lg px-4 py-4 text-2xl font-mono text-center outline-none transition-colors ${
+            result
+              ? result.correct ? 'border-green-500 text-green-400' : 'border-monkey-error text-monkey-error'
+              : 'border-monkey-sub/20 focus:border-monkey-main text-monkey-text'
+          }`}
+        />
+
+        {result && (
+          <div className="mt-4 flex flex-col items-center gap-2 animate-fade-in">
+            {result.correct ? (
+              <div className="flex items-center gap-2 text-green-400">
+                <CheckCircle size={18} /> <span className="font-bold">{currentItem.word}</span>
+              </div>
+            ) : (
+              <>
+                <div className="flex items-center gap-2 text-monkey-error">
+                  <XCircle size={18} /> <span className="text-sm">Correct spelling:</span>
+                  <span className="font-bold text-monkey-main">{currentItem.word}</span>
+                </div>
+                {diff && (
+                  <div className="font-mono text-xl tracking-wider">
+                    {diff.map((d, i) => <span key={i} className={DIFF_STYLES[d.status]}>{d.char}</span>)}
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+        )}
+      </div>
+
+      <div className="w-full flex justify-between mt-auto mb-4 z-10">
+        <button
+          onClick={() => goTo(index - 1)}
+          disabled={index === 0}
+          className="flex items-center gap-2 px-4 py-3 md:px-6 rounded text-monkey-sub hover:text-monkey-main hover:bg-monkey-sub/10 disabled:opacity-30 transition-colors select-none"
+        >
+          <ArrowLeft size={20} /> <span className="hidden md:inline">Prev</span>
+        </button>
+        <button
+          onClick={handleSubmit}
+          className="flex items-center gap-2 px-6 py-3 rounded bg-monkey-main text-monkey-bg font-bold hover:opacity-90 transition-opacity select-none"
+        >
+          {result ? 'Next' : 'Check'}
+        </button>
+        <button
+          onClick={() => goTo(index + 1)}
+          disabled={index >= filteredData.length - 1}
+          className="flex items-center gap-2 px-4 py-3 md:px-6 rounded text-monkey-sub hover:text-monkey-main hover:bg-monkey-sub/10 disabled:opacity-30 transition-colors select-none"
+        >
+          <span className="hidden md:inline">Skip</span> <ArrowRight size={20} />
+        </button>
+      </div>
+
+      {/* Keyboard Legend */}
+      <div className="mb-4 text-[10px] text-monkey-sub/30 flex gap-4 pointer-events-none hidden md:flex">
+        <span>Enter: Check / Next</span>
+        <span>Tab: Hint</span>
+        <span>Esc: Exit</span>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,55 @@
+import React, { useState } from 'react';
+import { useRegisterSW } from 'virtual:pwa-register/react';
+import { RefreshCw, WifiOff, X } from 'lucide-react';
+
+interface Props {
+  onBeforeReload: () => Promise<void>; // Flush the workspace so no progress is lost to the reload
+}
+
+// Service worker registration: a one-time "works offline" notice and the update prompt
+export const UpdatePrompt: React.FC<Props> = ({ onBeforeReload }) => {
+  const [isUpdating, setIsUpdating] = useState(false);
+  const {
+    offlineReady: [offlineReady, setOfflineReady],
+    needRefresh: [needRefresh, setNeedRefresh],
+    updateServiceWorker
+  } = useRegisterSW({
+    onRegisterError: (err) => console.warn('Service worker registration failed', err)
+  });
+
+  if (!offlineReady && !needRefresh) return null;
+
+  const close = () => {
+    setOfflineReady(false);
+    setNeedRefresh(false);
+  };
+
+  const handleUpdate = async () => {
+    setIsUpdating(true);
+    await onBeforeReload();
+    await updateServiceWorker(true);
+  };
+
+  return (
+    <div className="fixed bottom-4 right-4 z-[9000] max-w-xs flex items-start gap-3 bg-[#2c2e31] border border-monkey-sub/30 rounded-lg shadow-xl p-4 text-sm animate-fade-in-up">
+      {needRefresh ? <RefreshCw size={18} className="text-monkey-main shrink-0 mt-0.5" /> : <WifiOff size={18} className="text-monkey-main shrink-0 mt-0.5" />}
+      <div className="flex-1">
+        <p className="text-monkey-text">
+          {needRefresh ? 'A new version is available.' : 'Ready to work offline.'}
+        </p>
+        {needRefresh && (
+          <button
+            onClick={handleUpdate}
+            disabled={isUpdating}
+            className="mt-2 px-3 py-1 rounded bg-monkey-main text-monkey-bg font-bold hover:bg-white transition-colors disabled:opacity-50"
+          >
+            {isUpdating ? 'Updating...' : 'Reload'}
+          </button>
+        )}
+      </div>
+      <button onClick={close} className="text-monkey-sub hover:text-monkey-text transition-colors" aria-label="Dismiss">
+        <X size={16} />
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,77 @@
+import React, { useState } from 'react';
+import { Check, X, Trash2 } from 'lucide-react';
+
+interface Props {
+  word: string;
+  definition: string;
+  onSave: (word: string, definition: string) => void;
+  onCancel: () => void;
+  onDelete?: () => void;
+}
+
+// Inline word / definition fields. Enter saves, Escape cancels; delete asks for a second click.
+export const WordEditor: React.FC<Props> = ({ word, definition, onSave, onCancel, onDelete }) => {
+  const [draftWord, setDraftWord] = useState(word);
+  const [draftDefinition, setDraftDefinition] = useState(definition);
+  const [confirmDelete, setConfirmDelete] = useState(false);
+
+  const canSave = draftWord.trim() !== '' && draftDefinition.trim() !== '';
+
+  const save = () => {
+    if (canSave) onSave(draftWord.trim(), draftDefinition.trim());
+  };
+
+  // Keys stay inside the editor so list shortcuts (digits, arrows, space) do not fire while typing
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    e.stopPropagation();
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault();
+      save();
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      onCancel();
+    }
+  };
+
+  const inputClass = "bg-[#323437] border border-monkey-sub/30 rounded px-2 py-1 text-monkey-text focus:outline-none focus:border-monkey-main";
+
+  return (
+    <div className="flex flex-col gap-2 w-full text-sm" onClick={(e) => e.stopPropagation()} onKeyDown={handleKeyDown}>
+      <input
+        value={draftWord}
+        onChange={(e) => setDraftWord(e.target.value)}
+        placeholder="Word"
+        spellCheck={false}
+        autoFocus
+        className={`${inputClass} font-bold`}
+      />
+      <textarea
+        value={draftDefinition}
+        onChange={(e) => setDraftDefinition(e.target.value)}
+        placeholder="Definition"
+        rows={2}
+        className={`${inputClass} resize-y`}
+      />
+      <div className="flex items-center gap-2">
+        <button
+          onClick={save}
+          disabled={!canSave}
+          className="flex items-center gap-1 px-3 py-1 rounded bg-monkey-main text-monkey-bg font-bold hover:bg-white transition-colors disabled:opacity-40"
+        >
+          <Check size={14} /> Save
+        </button>
+        <button onClick={onCancel} className="flex items-center gap-1 px-3 py-1 rounded text-monkey-sub hover:text-monkey-text hover:bg-monkey-sub/10 transition-colors">
+          <X size={14} /> Cancel
+        </button>
+        {onDelete && (
+          <button
+            onClick={() => (confirmDelete ? onDelete() : setConfirmDelete(true))}
+            className={`ml-auto flex items-center gap-1 px-3 py-1 rounded transition-colors ${confirmDelete ? 'bg-monkey-error text-white font-bold' : 'text-monkey-sub hover:text-monkey-error'}`}
+          >
+            <Trash2 size={14} /> {confirmDelete ? 'Delete word?' : 'Delete'}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
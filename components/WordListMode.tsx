@@ -3,7 +3,9 @@
 import React, { useState, useEffect, useMemo, useRef, useCallback } from 'react';
 import { createPortal } from 'react-dom';
 import { VocabularyItem } from '../types';
-import { Eye, EyeOff, Shuffle, RotateCcw, LightbulbOff, AlertTriangle, FileBadge } from 'lucide-react';
+import { DefinitionView } from './DefinitionView';
+import { WordEditor } from './WordEditor';
+import { Eye, EyeOff, Shuffle, RotateCcw, LightbulbOff, AlertTriangle, FileBadge, Pencil, Plus } from 'lucide-react';
 
 interface Props {
   data: VocabularyItem[];
@@ -14,6 +16,9 @@ interface Props {
   onShuffle: () => void;
   onRestore: () => void;
   onGetSourceName: (id: string) => string | undefined;
+  onEditWord: (id: string, word: string, definition: string) => void;
+  onDeleteWord: (id: string) => void;
+  onNewWord: () => void;
 }
 
 const WordRow = React.memo(({ 
@@ -21,6 +26,7 @@ const WordRow = React.memo(({
   idx, 
   isDefVisible, 
   isSelected, 
+  isEditing,
   showSource, 
   sourceName,
   onRowClick,
@@ -30,12 +36,17 @@ const WordRow = React.memo(({
   onLevelClick,
   onWordCycle,
   onToggleDef,
+  onStartEdit,
+  onSaveEdit,
+  onCancelEdit,
+  onDelete,
   setRowHeight
 }: {
   item: VocabularyItem;
   idx: number;
   isDefVisible: boolean;
   isSelected: boolean;
+  isEditing: boolean;
   showSource: boolean;
   sourceName?: string;
   onRowClick: (e: React.MouseEvent, idx: number) => void;
@@ -45,6 +56,10 @@ const WordRow = React.memo(({
   onLevelClick: (e: React.MouseEvent, id: string, level: number, idx: number) => void;
   onWordCycle: (e: React.MouseEvent, item: VocabularyItem, idx: number) => void;
   onToggleDef: (e: React.MouseEvent, id: string, idx: number) => void;
+  onStartEdit: (id: string) => void;
+  onSaveEdit: (id: string, word: string, definition: string) => void;
+  onCancelEdit: () => void;
+  onDelete: (id: string) => void;
   setRowHeight: (idx: number, height: number) => void;
 }) => {
     const rowRef = useRef<HTMLDivElement>(null);
@@ -70,7 +85,7 @@ const WordRow = React.memo(({
           onClick={(e) => onRowClick(e, idx)} 
           className={`
             w-full box-border relative
-            flex flex-col p-4 rounded-lg border md:rounded-none md:p-0 md:grid md:grid-cols-[60px_1fr_2fr] md:gap-x-6 md:items-center border-b md:border-b transition-colors cursor-pointer 
+            flex flex-col p-4 rounded-lg border md:rounded-none md:p-0 md:grid md:grid-cols-[60px_1fr_2fr] md:gap-x-6 md:items-center border-b md:border-b transition-colors cursor-pointer group/row
             ${isSelected ? 'bg-monkey-main/10 border-monkey-main/30 md:bg-monkey-main/5 ring-1 ring-monkey-main/20 z-10' : 'bg-[#2c2e31] border-monkey-sub/10 md:bg-transparent md:border-monkey-sub/10'}
           `}
       >
@@ -94,40 +109,61 @@ const WordRow = React.memo(({
                </div>
           </div>
 
-          {/* Word Column */}
-          <div 
-              className="text-xl md:text-lg font-bold text-monkey-text select-text transition-colors mb-2 md:mb-0 md:py-3 flex flex-wrap items-center gap-2"
-          >
-              <span
-                  className="cursor-pointer hover:text-white"
-                  onClick={(e) => { e.stopPropagation(); onWordCycle(e, item, idx); }}
+          {isEditing ? (
+              <div className="md:col-span-2 md:py-3">
+                  <WordEditor
+                      word={item.word}
+                      definition={item.definition}
+                      onSave={(word, definition) => onSaveEdit(item.id, word, definition)}
+                      onCancel={onCancelEdit}
+                      onDelete={() => onDelete(item.id)}
+                  />
+              </div>
+          ) : (
+              <>
+              {/* Word Column */}
+              <div 
+                  className="text-xl md:text-lg font-bold text-monkey-text select-text transition-colors mb-2 md:mb-0 md:py-3 flex flex-wrap items-center gap-2"
               >
-                  {item.word}
-              </span>
-              {sourceName && (
-                  <span className="text-[10px] bg-monkey-sub/20 text-monkey-sub px-1.5 py-0.5 rounded font-normal align-middle truncate max-w-[120px]">
-                      {sourceName}
+                  <span
+                      className="cursor-pointer hover:text-white"
+                      onClick={(e) => { e.stopPropagation(); onWordCycle(e, item, idx); }}
+                  >
+                      {item.word}
                   </span>
-              )}
-          </div>
-
-          {/* Definition Column */}
-          <div 
-              className="leading-relaxed md:py-3 min-h-[1.5em] group"
-          >
-              <span 
-                onClick={(e) => { e.stopPropagation(); onToggleDef(e, item.id, idx); }}
-                className={`
-                  rounded px-1 cursor-pointer
-                  ${isDefVisible 
-                    ? 'bg-transparent text-gray-200' 
-                    : 'bg-[#3f4145] text-transparent select-none hover:bg-[#4a4c50] box-decoration-clone' 
-                  }
-                `}
+                  <button
+                      onClick={(e) => { e.stopPropagation(); onStartEdit(item.id); }}
+                      className="text-monkey-sub hover:text-monkey-main transition-colors md:opacity-0 md:group-hover/row:opacity-100 focus:opacity-100"
+                      title="Edit (Enter)"
+                  >
+                      <Pencil size={14} />
+                  </button>
+                  {sourceName && (
+                      <span className="text-[10px] bg-monkey-sub/20 text-monkey-sub px-1.5 py-0.5 rounded font-normal align-middle truncate max-w-[120px]">
+                          {sourceName}
+                      </span>
+                  )}
+              </div>
+
+              {/* Definition Column */}
+              <div 
+                  className="leading-relaxed md:py-3 min-h-[1.5em] group"
               >
-                  {item.definition}
-              </span>
-          </div>
+                  <span 
+                    onClick={(e) => { e.stopPropagation(); onToggleDef(e, item.id, idx); }}
+                    className={`
+                      rounded px-1 cursor-pointer
+                      ${isDefVisible 
+                        ? 'bg-transparent text-gray-200' 
+                        : 'bg-[#3f4145] text-transparent select-none hover:bg-[#4a4c50] box-decoration-clone' 
+                      }
+                    `}
+                  >
+                      <DefinitionView item={item} inline />
+                  </span>
+              </div>
+              </>
+          )}
       </div>
   );
 }, (prev, next) => {
@@ -136,14 +172,16 @@ const WordRow = React.memo(({
         prev.idx === next.idx &&
         prev.isDefVisible === next.isDefVisible &&
         prev.isSelected === next.isSelected &&
+        prev.isEditing === next.isEditing &&
         prev.showSource === next.showSource &&
         prev.sourceName === next.sourceName
     );
 });
 
-export const WordListMode: React.FC<Props> = ({ data, jumpToId, onExit, onUpdateLevel, onResetLevels, onShuffle, onRestore, onGetSourceName }) => {
+export const WordListMode: React.FC<Props> = ({ data, jumpToId, onExit, onUpdateLevel, onResetLevels, onShuffle, onRestore, onGetSourceName, onEditWord, onDeleteWord, onNewWord }) => {
   const [showAllDefs, setShowAllDefs] = useState(false);
   const [visibleDefs, setVisibleDefs] = useState<Set<string>>(new Set());
+  const [editingId, setEditingId] = useState<string | null>(null);
   
   // Display Options
   const [showSource, setShowSource] = useState(false);
@@ -386,6 +424,18 @@ export const WordListMode: React.FC<Props> = ({ data, jumpToId, onExit, onUpdate
       lastLightUpdateX.current = null;
   }, []);
 
+  const handleSaveEdit = useCallback((id: string, word: string, definition: string) => {
+      onEditWord(id, word, definition);
+      setEditingId(null);
+  }, [onEditWord]);
+
+  const handleCancelEdit = useCallback(() => setEditingId(null), []);
+
+  const handleDelete = useCallback((id: string) => {
+      onDeleteWord(id);
+      setEditingId(null);
+  }, [onDeleteWord]);
+
   const handleRowClick = useCallback((e: React.MouseEvent, index: number) => {
       // This is now reachable because inner elements stop propagation
       e.stopPropagation(); 
@@ -410,6 +460,9 @@ export const WordListMode: React.FC<Props> = ({ data, jumpToId, onExit, onUpdate
   // Keyboard Handlers
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
+       // The inline editor handles its own keys
+       if (editingId) return;
+
        if (e.code === 'Escape') {
            if (showResetConfirm) {
                handleCloseModal();
@@ -431,9 +484,14 @@ export const WordListMode: React.FC<Props> = ({ data, jumpToId, onExit, onUpdate
        if (e.key === '6') handleResetClick();
        if (e.key === '7') setShowSource(prev => !prev);
        if (e.key === '8') toggleAll();
+       if (e.key === '9') onNewWord();
 
        // Navigation
-       if (e.code === 'ArrowDown') {
+       if (e.code === 'Enter') {
+           e.preventDefault();
+           const item = filteredData[selectedIndex];
+           if (item) setEditingId(item.id);
+       } else if (e.code === 'ArrowDown') {
            e.preventDefault();
            setUsingKeyboard(true);
            setSelectedIndex(prev => Math.min(prev + 1, filteredData.length - 1));
@@ -469,7 +527,7 @@ export const WordListMode: React.FC<Props> = ({ data, jumpToId, onExit, onUpdate
     return () => {
         window.removeEventListener('keydown', handleKeyDown);
     };
-  }, [onExit, filteredData, selectedIndex, onUpdateLevel, showResetConfirm, toggleAll]);
+  }, [onExit, filteredData, selectedIndex, onUpdateLevel, showResetConfirm, toggleAll, editingId, onNewWord]);
 
   // Scroll current item into view if not visible
   useEffect(() => {
@@ -580,6 +638,14 @@ export const WordListMode: React.FC<Props> = ({ data, jumpToId, onExit, onUpdate
                 <FileBadge size={16} />
             </button>
 
+            <button
+                onClick={onNewWord}
+                className="p-2 bg-[#2c2e31] rounded text-monkey-sub hover:text-monkey-main transition-colors"
+                title="New Word (9)"
+            >
+                <Plus size={16} />
+            </button>
+
             <div className="flex-grow"></div>
 
             <button 
@@ -624,12 +690,17 @@ export const WordListMode: React.FC<Props> = ({ data, jumpToId, onExit, onUpdate
                             idx={index}
                             isDefVisible={showAllDefs || visibleDefs.has(item.id)}
                             isSelected={usingKeyboard && index === selectedIndex}
+                            isEditing={editingId === item.id}
                             showSource={showSource}
                             sourceName={showSource && item.sourceId ? onGetSourceName(item.sourceId) : undefined}
                             onRowClick={handleRowClick}
                             onLevelClick={handleLevelClick}
                             onWordCycle={handleWordCycle}
                             onToggleDef={toggleIndividual}
+                            onStartEdit={setEditingId}
+                            onSaveEdit={handleSaveEdit}
+                            onCancelEdit={handleCancelEdit}
+                            onDelete={handleDelete}
                             onLightSwipeStart={handleLightSwipeStart}
                             onLightSwipeMove={handleLightSwipeMove}
                             onLightSwipeEnd={handleLightSwipeEnd}
@@ -646,6 +717,7 @@ export const WordListMode: React.FC<Props> = ({ data, jumpToId, onExit, onUpdate
           <div className="mt-2 text-[10px] text-monkey-sub/30 flex gap-4 pointer-events-none hidden md:flex pb-2 animate-fade-in shrink-0">
               <span>↑/↓: Nav</span>
               <span>Space: Reveal</span>
+              <span>Enter: Edit</span>
               <span>←/→: Adjust Level</span>
               <span>Esc: Exit</span>
           </div>
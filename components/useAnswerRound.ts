@@ -0,0 +1,64 @@
+import { useState, useEffect, useCallback } from 'react';
+import { VocabularyItem } from '../types';
+
+// Walks the typed-answer modes (spelling, cloze) through a list one word at a time.
+// The answered word stays pinned while its result is shown, because demotion can move
+// it out of the active filter. Moving past the last word ends the round; its size is taken
+// when the round starts, since demoted words can leave the list before it ends.
+export const useAnswerRound = (items: VocabularyItem[], initialIndex = 0) => {
+  const [index, setIndex] = useState(initialIndex);
+  const [pinnedItem, setPinnedItem] = useState<VocabularyItem | null>(null);
+  const [isFinished, setIsFinished] = useState(false);
+  // null until the list of a newly started round has been rendered
+  const [roundSize, setRoundSize] = useState<number | null>(items.length);
+  const currentItem = pinnedItem ?? items[index];
+
+  useEffect(() => {
+    if (roundSize === null) setRoundSize(items.length);
+  }, [roundSize, items.length]);
+
+  // Reset index if it goes out of bounds when filtering changes
+  useEffect(() => {
+    if (index >= items.length && items.length > 0) {
+      setIndex(0);
+    }
+  }, [items.length, index]);
+
+  const goTo = useCallback((nextIndex: number) => {
+    setPinnedItem(null);
+    setIsFinished(false);
+    setIndex(Math.max(0, Math.min(nextIndex, Math.max(0, items.length - 1))));
+  }, [items.length]);
+
+  // Move on from an answered word
+  const advance = useCallback(() => {
+    if (!currentItem) return;
+    // A demoted item may have left the filter; the list then already advanced by itself
+    const stillListed = items[index]?.id === currentItem.id;
+    const nextIndex = stillListed ? index + 1 : index;
+    if (nextIndex >= items.length) {
+      setPinnedItem(null);
+      setIsFinished(true);
+      return;
+    }
+    goTo(nextIndex);
+  }, [currentItem, items, index, goTo]);
+
+  // Back to the first word; filter or order changes made alongside apply to the new round
+  const startRound = useCallback(() => {
+    goTo(0);
+    setRoundSize(null);
+  }, [goTo]);
+
+  return {
+    index,
+    currentItem,
+    isPinned: pinnedItem !== null,
+    isFinished,
+    roundSize: roundSize ?? items.length,
+    pin: setPinnedItem,
+    goTo,
+    advance,
+    startRound
+  };
+};
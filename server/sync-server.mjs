@@ -0,0 +1,195 @@
+// Word Forge sync server: a small LAN service that lets several devices share one workspace.
+//
+//   npm run sync-server                      (port 8787, data in ./sync-data.json)
+//   PORT=9000 SYNC_DATA=~/forge.json npm run sync-server
+//
+// Devices push field-level deltas stamped with the time of the change; the latest write per
+// field wins (ties broken by device id) and deleted records keep a tombstone. Every accepted
+// write gets a sequence number, so a device pulls only what changed since its last cursor.
+// A record that comes back (a rejected deletion, an edit after a deletion) is sent to every
+// device in full, because devices that dropped it cannot rebuild it from single fields.
+// No dependencies beyond Node itself.
+
+import http from 'node:http';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+const PORT = Number(process.env.PORT) || 8787;
+const DATA_FILE = path.resolve(process.env.SYNC_DATA || 'sync-data.json');
+const MAX_BODY_BYTES = 64 * 1024 * 1024;
+const SEP = '\u001f';
+
+/**
+ * @typedef {{ value: unknown, t: number, device: string, seq: number }} FieldEntry
+ * @typedef {{ t: number, device: string, seq: number }} Tombstone
+ * @typedef {{ collection: string, id: string, fields: Record<string, FieldEntry>, tombstone?: Tombstone }} StoredRecord
+ * @typedef {{ seq: number, records: Record<string, StoredRecord>, devices: Record<string, number> }} ServerState
+ */
+
+/** @returns {ServerState} */
+const loadState = () => {
+  try {
+    return JSON.parse(fs.readFileSync(DATA_FILE, 'utf8'));
+  } catch (err) {
+    if (err.code !== 'ENOENT') {
+      console.error(`Cannot read ${DATA_FILE}: ${err.message}`);
+      process.exit(1);
+    }
+    return { seq: 0, records: {}, devices: {} };
+  }
+};
+
+const state = loadState();
+
+// Write to a temporary file first so a crash never leaves half a file behind
+const saveState = () => {
+  const temp = `${DATA_FILE}.tmp`;
+  fs.writeFileSync(temp, JSON.stringify(state));
+  fs.renameSync(temp, DATA_FILE);
+};
+
+// Last write wins; equal timestamps go to the larger device id so every server agrees
+const wins = (t, device, existing) => {
+  if (!existing) return true;
+  return t > existing.t || (t === existing.t && device > existing.device);
+};
+
+// Helper: Give every field a new sequence number so all devices pull the whole record again
+const resendRecord = (key, record, resend) => {
+  for (const field of Object.values(record.fields)) field.seq = ++state.seq;
+  resend.add(key);
+};
+
+/** Apply one change from a device; returns true when it was accepted. Records that must go
+ *  back to the sender in full are added to `resend`. */
+const applyChange = (change, device, resend) => {
+  if (!change || typeof change.collection !== 'string' || typeof change.id !== 'string' || typeof change.t !== 'number') return false;
+  const key = `${change.collection}${SEP}${change.id}`;
+  const record = state.records[key] || (state.records[key] = { collection: change.collection, id: change.id, fields: {} });
+
+  if (change.deleted) {
+    if (!wins(change.t, device, record.tombstone)) return false;
+    // An edit made after the deletion keeps the record alive, also on the device that deleted it
+    if (Object.values(record.fields).some(field => field.t > change.t)) {
+      resendRecord(key, record, resend);
+      return false;
+    }
+    record.tombstone = { t: change.t, device, seq: ++state.seq };
+    return true;
+  }
+
+  if (typeof change.field !== 'string') return false;
+  if (!wins(change.t, device, record.fields[change.field])) return false;
+  record.fields[change.field] = { value: change.value ?? null, t: change.t, device, seq: ++state.seq };
+
+  if (record.tombstone && record.tombstone.t < change.t) {
+    // Edited after it was deleted elsewhere: bring the whole record back for everyone
+    delete record.tombstone;
+    resendRecord(key, record, resend);
+  }
+  return true;
+};
+
+/** Everything changed after `since`, except the writes this device just made (`echoAfter`).
+ *  Records in `resend` go out whole. Field changes carry `complete` when every field of the
+ *  record is included, so a device that lacks the record knows it can rebuild it. */
+const changesSince = (since, device, echoAfter, resend) => {
+  const isEcho = (entry) => entry.device === device && entry.seq > echoAfter;
+  const changes = [];
+  for (const [key, record] of Object.entries(state.records)) {
+    if (record.tombstone) {
+      if (record.tombstone.seq > since && !isEcho(record.tombstone)) {
+        changes.push({ collection: record.collection, id: record.id, deleted: true, t: record.tombstone.t });
+      }
+      continue;
+    }
+    const fields = Object.entries(record.fields);
+    const included = resend.has(key) ? fields : fields.filter(([, entry]) => entry.seq > since && !isEcho(entry));
+    const complete = included.length === fields.length;
+    for (const [field, entry] of included) {
+      changes.push({ collection: record.collection, id: record.id, field, value: entry.value, t: entry.t, ...(complete ? { complete } : {}) });
+    }
+  }
+  return changes;
+};
+
+const readBody = (req) => new Promise((resolve, reject) => {
+  const chunks = [];
+  let size = 0;
+  req.on('data', chunk => {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      reject(Object.assign(new Error('Request too large'), { status: 413 }));
+      req.destroy();
+      return;
+    }
+    chunks.push(chunk);
+  });
+  req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+  req.on('error', reject);
+});
+
+const send = (res, status, body) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+const handleSync = async (req, res) => {
+  let request;
+  try {
+    request = JSON.parse(await readBody(req));
+  } catch (err) {
+    send(res, err.status || 400, { error: err.status ? err.message : 'Invalid JSON' });
+    return;
+  }
+  const { deviceId, since = 0, changes = [] } = request || {};
+  if (typeof deviceId !== 'string' || !deviceId || typeof since !== 'number' || !Array.isArray(changes)) {
+    send(res, 400, { error: 'Expected { deviceId, since, changes }' });
+    return;
+  }
+
+  const startSeq = state.seq;
+  const resend = new Set();
+  let accepted = 0;
+  for (const change of changes) if (applyChange(change, deviceId, resend)) accepted++;
+  state.devices[deviceId] = Date.now();
+  saveState();
+
+  // A cursor ahead of ours means the data file was reset: send everything again
+  const from = since > state.seq ? 0 : since;
+  send(res, 200, { cursor: state.seq, changes: changesSince(from, deviceId, startSeq, resend), accepted });
+  if (changes.length > 0) console.log(`${new Date().toLocaleTimeString()} ${deviceId}: ${accepted}/${changes.length} changes accepted`);
+};
+
+const server = http.createServer((req, res) => {
+  // The app is served from another origin (dev server, installed PWA)
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+  res.setHeader('Access-Control-Allow-Private-Network', 'true');
+
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204);
+    res.end();
+  } else if (req.method === 'GET' && req.url === '/status') {
+    send(res, 200, { server: 'word-forge-sync', seq: state.seq, devices: Object.keys(state.devices).length });
+  } else if (req.method === 'POST' && req.url === '/sync') {
+    handleSync(req, res).catch(err => {
+      console.error(err);
+      send(res, 500, { error: 'Internal error' });
+    });
+  } else {
+    send(res, 404, { error: 'Not found' });
+  }
+});
+
+server.listen(PORT, '0.0.0.0', () => {
+  console.log(`Word Forge sync server, data in ${DATA_FILE}`);
+  for (const addresses of Object.values(os.networkInterfaces())) {
+    for (const address of addresses || []) {
+      if (address.family === 'IPv4' && !address.internal) console.log(`  http://${address.address}:${PORT}`);
+    }
+  }
+  console.log(`  http://localhost:${PORT}`);
+});
@@ -0,0 +1,335 @@
+import JSZip from 'jszip';
+import initSqlJs, { Database, SqlJsStatic } from 'sql.js';
+import sqlWasmUrl from 'sql.js/dist/sql-wasm.wasm?url';
+import { VocabularyItem, SourceFile } from '../types';
+import { structureDefinition } from './definitions';
+
+// Anki package (.apkg / .colpkg) import and export.
+// A package is a zip holding a SQLite collection.
+
+// Level <-> tag round trip ("wordforge::level_2")
+const LEVEL_TAG_PREFIX = 'wordforge::level_';
+// Parent deck for exports; stripped again on import so source names survive a round trip
+const EXPORT_DECK_ROOT = 'Word Forge';
+
+export interface AnkiModel {
+  id: string;
+  name: string;
+  fields: string[];
+}
+
+export interface AnkiNote {
+  id: string;
+  modelId: string;
+  fields: string[];
+  tags: string[];
+  deckName: string;
+  interval: number; // Days, 0 for new cards
+}
+
+export interface AnkiPackage {
+  models: AnkiModel[];
+  notes: AnkiNote[];
+}
+
+// Model / deck JSON as stored on the col row (schema 11), only the parts we read
+interface ModelJson {
+  id: number | string;
+  name: string;
+  flds?: FieldJson[];
+}
+
+interface FieldJson {
+  name: string;
+  ord: number;
+}
+
+interface DeckJson {
+  id: number | string;
+  name: string;
+}
+
+type Row = Record<string, unknown>;
+
+// Model id -> which field holds the word and which the definition
+export type AnkiFieldMapping = Record<string, { word: number; definition: number }>;
+
+export const isAnkiPackage = (fileName: string): boolean => {
+  const lower = fileName.toLowerCase();
+  return lower.endsWith('.apkg') || lower.endsWith('.colpkg');
+};
+
+let sqlPromise: Promise<SqlJsStatic> | null = null;
+
+const loadSql = (): Promise<SqlJsStatic> => {
+  if (sqlPromise) return sqlPromise;
+
+  const promise = initSqlJs({ locateFile: () => sqlWasmUrl });
+  promise.catch(() => { sqlPromise = null; });
+  sqlPromise = promise;
+  return promise;
+};
+
+// Helper: Run a query and return rows as plain objects
+const queryAll = (db: Database, sql: string): Row[] => {
+  const result = db.exec(sql);
+  if (result.length === 0) return [];
+  const { columns, values } = result[0];
+  return values.map(row => Object.fromEntries(columns.map((c, i) => [c, row[i]])));
+};
+
+const hasTable = (db: Database, name: string): boolean => {
+  return queryAll(db, `SELECT name FROM sqlite_master WHERE type='table' AND name='${name}'`).length > 0;
+};
+
+// Helper: Field HTML -> plain text (drops media references and markup)
+const stripHtml = (html: string): string => {
+  const withBreaks = html
+    .replace(/\[sound:[^\]]*\]/g, '')
+    .replace(/<br\s*\/?>|<\/div>|<\/p>/gi, '\n');
+  const doc = new DOMParser().parseFromString(withBreaks, 'text/html');
+  return (doc.body.textContent || '')
+    .split('\n')
+    .map(line => line.replace(/\s+/g, ' ').trim())
+    .filter(Boolean)
+    .join('\n');
+};
+
+// 1. READ PACKAGE
+export const parseAnkiPackage = async (file: File): Promise<AnkiPackage> => {
+  const zip = await JSZip.loadAsync(await file.arrayBuffer());
+
+  // Newer Anki writes a zstd-compressed "anki21b" next to a placeholder "anki2"
+  const entry = zip.file('collection.anki21') || (zip.file('collection.anki21b') ? null : zip.file('collection.anki2'));
+  if (!entry) {
+    throw new Error('Unsupported package version. Re-export from Anki with "Support older Anki versions" enabled');
+  }
+
+  const SQL = await loadSql();
+  const db = new SQL.Database(new Uint8Array(await entry.async('uint8array')));
+
+  try {
+    const models = new Map<string, AnkiModel>();
+    const deckNames = new Map<string, string>();
+
+    // Schema 11 keeps models / decks as JSON on the col row, schema 18 in their own tables
+    const col = queryAll(db, 'SELECT models, decks FROM col')[0] || {};
+    const modelJson: Record<string, ModelJson> = col.models ? JSON.parse(String(col.models)) : {};
+    const deckJson: Record<string, DeckJson> = col.decks ? JSON.parse(String(col.decks)) : {};
+
+    Object.values(modelJson).forEach(m => {
+      const fields = [...(m.flds || [])].sort((a, b) => a.ord - b.ord).map(f => f.name);
+      models.set(String(m.id), { id: String(m.id), name: m.name, fields });
+    });
+    Object.values(deckJson).forEach(d => deckNames.set(String(d.id), d.name));
+
+    if (models.size === 0 && hasTable(db, 'notetypes')) {
+      const fieldRows = queryAll(db, 'SELECT ntid, ord, name FROM fields ORDER BY ntid, ord');
+      for (const nt of queryAll(db, 'SELECT id, name FROM notetypes')) {
+        const id = String(nt.id);
+        models.set(id, { id, name: String(nt.name), fields: fieldRows.filter(f => String(f.ntid) === id).map(f => String(f.name)) });
+      }
+    }
+    if (deckNames.size === 0 && hasTable(db, 'decks')) {
+      for (const d of queryAll(db, 'SELECT id, name FROM decks')) {
+        // Schema 18 separates deck path components with \x1f
+        deckNames.set(String(d.id), String(d.name).replace(/\x1f/g, '::'));
+      }
+    }
+
+    // One row per note: its first card decides the deck, the longest interval the level
+    const rows = queryAll(db, `
+      SELECT n.id AS id, n.mid AS mid, n.flds AS flds, n.tags AS tags,
+             MIN(c.did) AS did, MAX(CASE WHEN c.type = 0 THEN 0 ELSE c.ivl END) AS ivl
+      FROM notes n LEFT JOIN cards c ON c.nid = n.id
+      GROUP BY n.id ORDER BY n.id
+    `);
+
+    const notes: AnkiNote[] = rows.map(row => ({
+      id: String(row.id),
+      modelId: String(row.mid),
+      fields: String(row.flds).split('\x1f').map(stripHtml),
+      tags: String(row.tags || '').trim().split(/\s+/).filter(Boolean),
+      deckName: deckNames.get(String(row.did)) || 'Default',
+      // Negative intervals are learning steps in seconds
+      interval: Math.max(0, Number(row.ivl) || 0)
+    }));
+
+    return { models: Array.from(models.values()), notes };
+  } finally {
+    db.close();
+  }
+};
+
+// Default mapping: first field is the word, second the definition
+export const defaultFieldMapping = (pkg: AnkiPackage): AnkiFieldMapping => {
+  const mapping: AnkiFieldMapping = {};
+  for (const model of pkg.models) {
+    mapping[model.id] = { word: 0, definition: Math.min(1, Math.max(0, model.fields.length - 1)) };
+  }
+  return mapping;
+};
+
+// Same thresholds as the scheduler's level derivation
+const levelFromInterval = (interval: number): number => {
+  if (interval <= 0) return 0;
+  if (interval < 3) return 1;
+  if (interval < 21) return 2;
+  return 3;
+};
+
+// 2. CONVERT
+// One SourceFile per deck; level comes from a Word Forge tag if present, else the card interval
+export const buildAnkiImport = (
+  pkg: AnkiPackage,
+  mapping: AnkiFieldMapping,
+  generateId: () => string
+): { sources: SourceFile[]; vocab: VocabularyItem[] } => {
+  const sourcesByDeck = new Map<string, SourceFile>();
+  const vocab: VocabularyItem[] = [];
+
+  for (const note of pkg.notes) {
+    const fields = mapping[note.modelId];
+    if (!fields) continue;
+    const word = (note.fields[fields.word] || '').trim();
+    const definition = (note.fields[fields.definition] || '').trim();
+    if (!word || !definition || fields.word === fields.definition) continue;
+
+    const deckName = note.deckName.startsWith(`${EXPORT_DECK_ROOT}::`) ? note.deckName.slice(EXPORT_DECK_ROOT.length + 2) : note.deckName;
+    let source = sourcesByDeck.get(deckName);
+    if (!source) {
+      source = { id: generateId(), name: deckName, enabled: true, dateAdded: Date.now(), wordCount: 0 };
+      sourcesByDeck.set(deckName, source);
+    }
+    source.wordCount++;
+
+    const levelTag = note.tags.find(tag => tag.toLowerCase().startsWith(LEVEL_TAG_PREFIX));
+    const taggedLevel = levelTag ? parseInt(levelTag.slice(LEVEL_TAG_PREFIX.length), 10) : NaN;
+    const tags = note.tags.filter(tag => tag !== levelTag);
+
+    vocab.push(structureDefinition({
+      id: generateId(),
+      sourceId: source.id,
+      word,
+      definition,
+      level: isNaN(taggedLevel) ? levelFromInterval(note.interval) : Math.max(0, Math.min(3, taggedLevel)),
+      originalIndex: vocab.length,
+      ...(tags.length > 0 ? { tags } : {})
+    }));
+  }
+
+  return { sources: Array.from(sourcesByDeck.values()), vocab };
+};
+
+// 3. EXPORT
+const SCHEMA_11 = `
+CREATE TABLE col (id integer primary key, crt integer not null, mod integer not null, scm integer not null, ver integer not null, dty integer not null, usn integer not null, ls integer not null, conf text not null, models text not null, decks text not null, dconf text not null, tags text not null);
+CREATE TABLE notes (id integer primary key, guid text not null, mid integer not null, mod integer not null, usn integer not null, tags text not null, flds text not null, sfld integer not null, csum integer not null, flags integer not null, data text not null);
+CREATE TABLE cards (id integer primary key, nid integer not null, did integer not null, ord integer not null, mod integer not null, usn integer not null, type integer not null, queue integer not null, due integer not null, ivl integer not null, factor integer not null, reps integer not null, lapses integer not null, left integer not null, odue integer not null, odid integer not null, flags integer not null, data text not null);
+CREATE TABLE revlog (id integer primary key, cid integer not null, usn integer not null, ease integer not null, ivl integer not null, lastIvl integer not null, factor integer not null, time integer not null, type integer not null);
+CREATE TABLE graves (usn integer not null, oid integer not null, type integer not null);
+CREATE INDEX ix_notes_usn on notes (usn);
+CREATE INDEX ix_cards_usn on cards (usn);
+CREATE INDEX ix_revlog_usn on revlog (usn);
+CREATE INDEX ix_cards_nid on cards (nid);
+CREATE INDEX ix_cards_sched on cards (did, queue, due);
+CREATE INDEX ix_revlog_cid on revlog (cid);
+CREATE INDEX ix_notes_csum on notes (csum);
+`;
+
+const deckJson = (id: number, name: string, now: number) => ({
+  id, name, mod: now, usn: -1, desc: '', dyn: 0, conf: 1, collapsed: false,
+  newToday: [0, 0], revToday: [0, 0], lrnToday: [0, 0], timeToday: [0, 0], extendNew: 10, extendRev: 50
+});
+
+const DEFAULT_DECK_CONF = {
+  id: 1, name: 'Default', mod: 0, usn: 0, maxTaken: 60, autoplay: true, timer: 0, replayq: true, dyn: false,
+  new: { bury: true, delays: [1, 10], initialFactor: 2500, ints: [1, 4, 7], order: 1, perDay: 20, separate: true },
+  rev: { bury: true, ease4: 1.3, fuzz: 0.05, ivlFct: 1, maxIvl: 36500, minSpace: 1, perDay: 200 },
+  lapse: { delays: [10], leechAction: 0, leechFails: 8, minInt: 1, mult: 0 }
+};
+
+const MODEL_CSS = '.card { font-family: arial; font-size: 22px; text-align: center; }';
+
+const escapeHtml = (text: string): string => {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/\n/g, '<br>');
+};
+
+const randomGuid = (): string => {
+  const chars = 'abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789';
+  return Array.from({ length: 10 }, () => chars[Math.floor(Math.random() * chars.length)]).join('');
+};
+
+// Anki's duplicate check: first 8 hex digits of the SHA-1 of the sort field
+const fieldChecksum = async (text: string): Promise<number> => {
+  const digest = await crypto.subtle.digest('SHA-1', new TextEncoder().encode(text));
+  const bytes = new Uint8Array(digest);
+  return ((bytes[0] << 24) >>> 0) + (bytes[1] << 16) + (bytes[2] << 8) + bytes[3];
+};
+
+// Writes the given words as one Anki deck per source ("Word Forge::<source>"), levels as tags.
+// Cards are exported as new; Anki schedules them from scratch.
+export const exportAnkiPackage = async (items: VocabularyItem[], sources: SourceFile[]): Promise<Blob> => {
+  const SQL = await loadSql();
+  const db = new SQL.Database();
+
+  try {
+    db.run(SCHEMA_11);
+
+    const now = Date.now();
+    const nowSec = Math.floor(now / 1000);
+    const modelId = now;
+
+    // Deck ids must be unique integers; 1 is Anki's "Default" deck
+    const decks: Record<string, ReturnType<typeof deckJson>> = { '1': deckJson(1, 'Default', nowSec) };
+    const deckIdBySource = new Map<string, number>();
+    sources.forEach((source, i) => {
+      const id = now + 1 + i;
+      deckIdBySource.set(source.id, id);
+      decks[String(id)] = deckJson(id, `${EXPORT_DECK_ROOT}::${source.name.replace(/::/g, ' ')}`, nowSec);
+    });
+    const fallbackDeckId = now + 1 + sources.length;
+    decks[String(fallbackDeckId)] = deckJson(fallbackDeckId, EXPORT_DECK_ROOT, nowSec);
+
+    const model = {
+      id: modelId, name: 'Word Forge', type: 0, mod: nowSec, usn: -1, sortf: 0, did: fallbackDeckId,
+      flds: ['Word', 'Definition'].map((name, ord) => ({ name, ord, sticky: false, rtl: false, font: 'Arial', size: 20, media: [] })),
+      tmpls: [{ name: 'Card 1', ord: 0, qfmt: '{{Word}}', afmt: '{{FrontSide}}<hr id=answer>{{Definition}}', did: null, bqfmt: '', bafmt: '' }],
+      css: MODEL_CSS, latexPre: '', latexPost: '', latexsvg: false, req: [[0, 'any', [0]]], tags: [], vers: []
+    };
+
+    db.run(
+      'INSERT INTO col VALUES (1, ?, ?, ?, 11, 0, 0, 0, ?, ?, ?, ?, ?)',
+      [nowSec, now, now, JSON.stringify({ nextPos: items.length + 1, curDeck: 1 }), JSON.stringify({ [modelId]: model }),
+       JSON.stringify(decks), JSON.stringify({ '1': DEFAULT_DECK_CONF }), '{}']
+    );
+
+    const insertNote = db.prepare('INSERT INTO notes VALUES (?, ?, ?, ?, -1, ?, ?, ?, ?, 0, \'\')');
+    const insertCard = db.prepare('INSERT INTO cards VALUES (?, ?, ?, 0, ?, -1, 0, 0, ?, 0, 0, 0, 0, 0, 0, 0, 0, \'\')');
+
+    for (let i = 0; i < items.length; i++) {
+      const item = items[i];
+      const noteId = now + i;
+      const word = escapeHtml(item.word);
+      const tags = [
+        ...(item.tags || []).map(tag => tag.replace(/\s+/g, '_')),
+        `${LEVEL_TAG_PREFIX}${item.level}`
+      ];
+      const deckId = (item.sourceId && deckIdBySource.get(item.sourceId)) || fallbackDeckId;
+
+      insertNote.run([noteId, randomGuid(), modelId, nowSec, ` ${tags.join(' ')} `,
+        `${word}\x1f${escapeHtml(item.definition)}`, item.word, await fieldChecksum(item.word)]);
+      // New cards, in list order
+      insertCard.run([noteId, noteId, deckId, nowSec, i + 1]);
+    }
+    insertNote.free();
+    insertCard.free();
+
+    const zip = new JSZip();
+    zip.file('collection.anki2', db.export());
+    zip.file('media', '{}');
+    return await zip.generateAsync({ type: 'blob', compression: 'DEFLATE' });
+  } finally {
+    db.close();
+  }
+};
@@ -0,0 +1,108 @@
+import { VocabularyItem } from '../types';
+
+// Fill-in-the-blank questions built from a word's example sentences.
+
+export interface ClozeQuestion {
+  before: string;
+  answer: string; // The form that appears in the sentence ("abandoned" for "abandon")
+  after: string;
+}
+
+export interface SentencePair {
+  word: string;
+  sentence: string;
+}
+
+// Regular English inflections of a headword, longest first.
+// Irregular forms (went, children) are not covered.
+export const inflectedForms = (word: string): string[] => {
+  const w = word.toLowerCase();
+  const forms = new Set([w, `${w}s`, `${w}es`, `${w}ed`, `${w}d`, `${w}ing`, `${w}er`, `${w}est`, `${w}ly`]);
+
+  // study -> studies / studied
+  if (/[^aeiou]y$/.test(w)) {
+    const stem = w.slice(0, -1);
+    for (const ending of ['ies', 'ied', 'ier', 'iest', 'ily']) forms.add(stem + ending);
+  }
+  // make -> making, die -> dying
+  if (w.endsWith('ie')) forms.add(`${w.slice(0, -2)}ying`);
+  else if (w.endsWith('e')) forms.add(`${w.slice(0, -1)}ing`);
+  // stop -> stopped / stopping
+  if (/(?:^|[^aeiou])[aeiou][bdgklmnprt]$/.test(w)) {
+    const doubled = w + w.slice(-1);
+    for (const ending of ['ed', 'ing', 'er', 'est']) forms.add(doubled + ending);
+  }
+
+  return Array.from(forms).sort((a, b) => b.length - a.length);
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Helper: Locate the word (or an inflection of it) in a sentence.
+// For phrases only the first word is inflected ("give up" -> "giving up").
+const findWord = (sentence: string, word: string): ClozeQuestion | null => {
+  const [head, ...rest] = word.trim().split(/\s+/);
+  if (!head) return null;
+  const heads = inflectedForms(head).map(escapeRegExp).join('|');
+  const tail = rest.map(part => `\\s+${escapeRegExp(part)}`).join('');
+  const match = sentence.match(new RegExp(`(^|[^A-Za-z])((?:${heads})${tail})(?![A-Za-z])`, 'i'));
+  if (!match || match.index === undefined) return null;
+  const start = match.index + match[1].length;
+  return {
+    before: sentence.substring(0, start),
+    answer: match[2],
+    after: sentence.substring(start + match[2].length)
+  };
+};
+
+// The first example sentence that contains the word
+export const buildCloze = (item: VocabularyItem): ClozeQuestion | null => {
+  for (const sentence of item.examples || []) {
+    const question = findWord(sentence, item.word);
+    if (question) return question;
+  }
+  return null;
+};
+
+export const hasCloze = (item: VocabularyItem): boolean => buildCloze(item) !== null;
+
+export const sentenceFitsWord = (sentence: string, word: string): boolean => findWord(sentence, word) !== null;
+
+// "word<TAB>sentence", "word | sentence", "word: sentence" or "word - sentence", one per line
+const SENTENCE_LINE = /^\s*([^\t|:]+?)\s*(?:\t|\s\|\s|:\s|\s[-–—]\s)\s*(\S.*)$/;
+
+export const parseSentenceFile = (text: string): SentencePair[] => {
+  const pairs: SentencePair[] = [];
+  for (const line of text.split(/\r\n|\r|\n/)) {
+    if (!line.trim() || line.trim().startsWith('#')) continue;
+    const match = line.match(SENTENCE_LINE);
+    if (match) pairs.push({ word: match[1].trim(), sentence: match[2].trim() });
+  }
+  return pairs;
+};
+
+// Add imported sentences to every item with the same spelling, skipping ones already present
+export const attachSentences = (vocab: VocabularyItem[], pairs: SentencePair[]): { vocab: VocabularyItem[]; added: number; unmatched: string[] } => {
+  const byWord = new Map<string, string[]>();
+  for (const { word, sentence } of pairs) {
+    const key = word.toLowerCase();
+    byWord.set(key, [...(byWord.get(key) || []), sentence]);
+  }
+
+  let added = 0;
+  const matchedWords = new Set<string>();
+  const next = vocab.map(item => {
+    const key = item.word.toLowerCase();
+    const sentences = byWord.get(key);
+    if (!sentences) return item;
+    matchedWords.add(key);
+    const existing = item.examples || [];
+    const fresh = sentences.filter(s => !existing.includes(s));
+    if (fresh.length === 0) return item;
+    added += fresh.length;
+    return { ...item, examples: [...existing, ...fresh] };
+  });
+
+  const unmatched = Array.from(byWord.keys()).filter(word => !matchedWords.has(word));
+  return { vocab: next, added, unmatched };
+};
@@ -0,0 +1,249 @@
+import { VocabularyItem, SourceFile } from '../types';
+import { structureDefinition } from './definitions';
+
+// Spreadsheet (CSV / TSV) import and export of vocabulary.
+
+export type CsvColumnRole = 'word' | 'definition' | 'level' | 'source' | 'tags' | 'ignore';
+
+export const CSV_COLUMN_ROLES: CsvColumnRole[] = ['word', 'definition', 'level', 'source', 'tags', 'ignore'];
+
+export interface CsvTable {
+  rows: string[][];
+  delimiter: string;
+  encoding: string;
+}
+
+export interface CsvMapping {
+  columns: CsvColumnRole[]; // One role per column
+  hasHeader: boolean;
+}
+
+export const DELIMITER_LABELS: Record<string, string> = {
+  ',': 'Comma',
+  '\t': 'Tab',
+  ';': 'Semicolon',
+  '|': 'Pipe',
+};
+
+const CANDIDATE_DELIMITERS = Object.keys(DELIMITER_LABELS);
+
+// Header names we recognise when guessing the mapping (lowercase)
+const HEADER_ALIASES: Record<Exclude<CsvColumnRole, 'ignore'>, string[]> = {
+  word: ['word', 'words', 'term', 'english', 'front', 'vocabulary', '单词', '词汇', '英文'],
+  definition: ['definition', 'definitions', 'meaning', 'translation', 'back', 'chinese', '释义', '中文', '意思', '词义'],
+  level: ['level', 'lvl', 'stage', '等级', '熟练度'],
+  source: ['source', 'list', 'deck', 'file', 'unit', '来源', '词表'],
+  tags: ['tags', 'tag', 'labels', '标签'],
+};
+
+export const isSpreadsheetFile = (fileName: string): boolean => {
+  const lower = fileName.toLowerCase();
+  return lower.endsWith('.csv') || lower.endsWith('.tsv');
+};
+
+// 1. DECODING
+// BOM first, then strict UTF-8, then GBK (the usual encoding of Chinese Excel exports)
+export const decodeText = (buffer: ArrayBuffer): { text: string; encoding: string } => {
+  const bytes = new Uint8Array(buffer);
+
+  if (bytes[0] === 0xEF && bytes[1] === 0xBB && bytes[2] === 0xBF) {
+    return { text: new TextDecoder('utf-8').decode(bytes.subarray(3)), encoding: 'UTF-8 (BOM)' };
+  }
+  if (bytes[0] === 0xFF && bytes[1] === 0xFE) {
+    return { text: new TextDecoder('utf-16le').decode(bytes.subarray(2)), encoding: 'UTF-16 LE' };
+  }
+  if (bytes[0] === 0xFE && bytes[1] === 0xFF) {
+    return { text: new TextDecoder('utf-16be').decode(bytes.subarray(2)), encoding: 'UTF-16 BE' };
+  }
+
+  try {
+    return { text: new TextDecoder('utf-8', { fatal: true }).decode(bytes), encoding: 'UTF-8' };
+  } catch {
+    return { text: new TextDecoder('gbk').decode(bytes), encoding: 'GBK' };
+  }
+};
+
+// 2. PARSING
+// RFC 4180 style: quoted fields may contain delimiters, newlines and doubled quotes
+export const parseDelimited = (text: string, delimiter: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+
+    if (inQuotes) {
+      if (ch === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += ch;
+      }
+      continue;
+    }
+
+    if (ch === '"' && field.length === 0) {
+      inQuotes = true;
+    } else if (ch === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+
+  if (field.length > 0 || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Drop blank lines
+  return rows.filter(r => r.some(cell => cell.trim().length > 0));
+};
+
+// Pick the delimiter that splits the first lines into the most consistent number of columns
+export const detectDelimiter = (text: string): string => {
+  const sample = text.split(/\r?\n/).slice(0, 20).join('\n');
+  let best = ',';
+  let bestScore = 0;
+
+  for (const delimiter of CANDIDATE_DELIMITERS) {
+    const rows = parseDelimited(sample, delimiter);
+    if (rows.length === 0) continue;
+    const counts = rows.map(r => r.length);
+    const columns = counts[0];
+    if (columns < 2) continue;
+    const consistent = counts.filter(c => c === columns).length / counts.length;
+    const score = consistent * columns;
+    if (score > bestScore) {
+      best = delimiter;
+      bestScore = score;
+    }
+  }
+  return best;
+};
+
+export const readSpreadsheet = async (file: File, delimiter?: string): Promise<CsvTable> => {
+  const { text, encoding } = decodeText(await file.arrayBuffer());
+  const chosen = delimiter || (file.name.toLowerCase().endsWith('.tsv') ? '\t' : detectDelimiter(text));
+  return { rows: parseDelimited(text, chosen), delimiter: chosen, encoding };
+};
+
+// 3. MAPPING
+export const guessMapping = (rows: string[][]): CsvMapping => {
+  const first = rows[0] || [];
+  const columnCount = Math.max(0, ...rows.slice(0, 20).map(r => r.length));
+
+  const columns: CsvColumnRole[] = new Array(columnCount).fill('ignore');
+  let hasHeader = false;
+
+  first.forEach((cell, index) => {
+    const name = cell.trim().toLowerCase();
+    for (const role of Object.keys(HEADER_ALIASES) as Array<keyof typeof HEADER_ALIASES>) {
+      if (HEADER_ALIASES[role].includes(name) && !columns.includes(role)) {
+        columns[index] = role;
+        hasHeader = true;
+        break;
+      }
+    }
+  });
+
+  // Without a recognisable header assume the common "word, definition" layout
+  for (const role of ['word', 'definition'] as CsvColumnRole[]) {
+    const free = columns.indexOf('ignore');
+    if (!columns.includes(role) && free !== -1) columns[free] = role;
+  }
+
+  return { columns, hasHeader };
+};
+
+const parseLevel = (value: string | undefined): number => {
+  const level = parseInt((value || '').trim(), 10);
+  return isNaN(level) ? 0 : Math.max(0, Math.min(3, level));
+};
+
+const parseTags = (value: string | undefined): string[] => {
+  return (value || '').split(/[;,|，；、]/).map(tag => tag.trim()).filter(Boolean);
+};
+
+// Turn mapped rows into vocabulary. Rows are grouped into one source per distinct
+// "source" cell; rows without one go into a source named after the file.
+export const buildSpreadsheetImport = (
+  rows: string[][],
+  mapping: CsvMapping,
+  fileName: string,
+  generateId: () => string
+): { sources: SourceFile[]; vocab: VocabularyItem[] } => {
+  const column = (role: CsvColumnRole) => mapping.columns.indexOf(role);
+  const wordCol = column('word');
+  const defCol = column('definition');
+  if (wordCol === -1 || defCol === -1) {
+    throw new Error('Map both a word and a definition column');
+  }
+  const levelCol = column('level');
+  const sourceCol = column('source');
+  const tagsCol = column('tags');
+
+  const sourcesByName = new Map<string, SourceFile>();
+  const vocab: VocabularyItem[] = [];
+  const dataRows = mapping.hasHeader ? rows.slice(1) : rows;
+
+  for (const row of dataRows) {
+    const word = (row[wordCol] || '').trim();
+    const definition = (row[defCol] || '').trim();
+    if (!word || !definition) continue;
+
+    const sourceName = (sourceCol !== -1 && row[sourceCol]?.trim()) || fileName;
+    let source = sourcesByName.get(sourceName);
+    if (!source) {
+      source = { id: generateId(), name: sourceName, enabled: true, dateAdded: Date.now(), wordCount: 0 };
+      sourcesByName.set(sourceName, source);
+    }
+    source.wordCount++;
+
+    const tags = tagsCol !== -1 ? parseTags(row[tagsCol]) : [];
+    vocab.push(structureDefinition({
+      id: generateId(),
+      sourceId: source.id,
+      word,
+      definition,
+      level: levelCol !== -1 ? parseLevel(row[levelCol]) : 0,
+      originalIndex: vocab.length,
+      ...(tags.length > 0 ? { tags } : {})
+    }));
+  }
+
+  return { sources: Array.from(sourcesByName.values()), vocab };
+};
+
+// 4. EXPORT
+const escapeCell = (value: string): string => {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+export const vocabularyToCsv = (items: VocabularyItem[], getSourceName: (id: string) => string | undefined): string => {
+  const lines = [['word', 'definition', 'level', 'source', 'tags'].join(',')];
+  for (const item of items) {
+    lines.push([
+      item.word,
+      item.definition,
+      String(item.level),
+      (item.sourceId && getSourceName(item.sourceId)) || '',
+      (item.tags || []).join(';')
+    ].map(escapeCell).join(','));
+  }
+  // BOM so Excel opens the Chinese definitions as UTF-8
+  return '\uFEFF' + lines.join('\r\n');
+};
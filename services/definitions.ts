@@ -0,0 +1,124 @@
+import { VocabularyItem, DefinitionSense } from '../types';
+
+// Structured view of a definition string: phonetics, part-of-speech tags and separate senses.
+// The flattened `definition` stays the source of truth (search, export, quiz answers);
+// the structured fields are derived from it.
+
+export interface StructuredDefinition {
+  phonetic?: string;
+  senses: DefinitionSense[];
+}
+
+export interface SenseGroup {
+  pos?: string;
+  meanings: string[];
+}
+
+// Dictionary abbreviations. "pl." is left out on purpose: it appears inside definitions ("pl. children").
+const POS_TAG = '(?:interj|prep|pron|conj|abbr|adj|adv|art|aux|num|int|vt|vi|ad|n|v|a)\\.(?![A-Za-z])';
+const POS_SEGMENT = new RegExp(`(^|[^A-Za-z])(${POS_TAG}(?:\\s*[/&,]\\s*${POS_TAG})*)`, 'g');
+
+// Collins-style word classes, only recognised at the very start ("VERB 放弃", "N-COUNT 能力")
+const COLLINS_CLASS = /^((?:NOUN|VERB|ADJ|ADV|PREP|CONJ|PRON|EXCLAM|MODAL|PHRASE|PHR-VERB|N|V)(?:-[A-Z]+)*)\s+/;
+
+const IPA_CHARS = /[əˈˌːæʃʒθðŋɪʊɔɑʌɜɒɛ]/;
+const PHONETIC = /(^|\s)(\/[^\/\n]{1,40}\/|\[[^\]\n]{1,40}\])(?=\s|$)/;
+
+// Helper: Phonetics in /.../ or [...]. Brackets are also used for labels like "[C]",
+// so they only count when they contain IPA symbols.
+const extractPhonetic = (text: string): { phonetic?: string; rest: string } => {
+  const match = text.match(PHONETIC);
+  if (!match || match.index === undefined) return { rest: text };
+  const candidate = match[2];
+  const inner = candidate.slice(1, -1);
+  if (/[\u3000-\u9fff\uac00-\ud7af]/.test(inner)) return { rest: text };
+  if (candidate.startsWith('[') && !IPA_CHARS.test(inner)) return { rest: text };
+  const start = match.index + match[1].length;
+  return {
+    phonetic: candidate,
+    rest: (text.substring(0, start) + text.substring(start + candidate.length)).trim()
+  };
+};
+
+const SENSE_BREAK = '\u0000';
+
+// Helper: Split one part-of-speech block into senses on ①②, "1." / "(1)" numbering and semicolons
+const splitSenses = (text: string): string[] => {
+  const marked = text
+    .replace(/[\u2460-\u2473]/g, SENSE_BREAK)
+    .replace(/[（(]\d{1,2}[)）]/g, SENSE_BREAK)
+    .replace(/(^|[\s；;，,])\d{1,2}[.)）](?!\d)/g, `$1${SENSE_BREAK}`)
+    .replace(/[；;]/g, SENSE_BREAK);
+  return marked
+    .split(SENSE_BREAK)
+    .map(sense => sense.replace(/^[\s，,。]+|[\s，,；;。]+$/g, ''))
+    .filter(Boolean);
+};
+
+export const parseDefinition = (definition: string): StructuredDefinition => {
+  const { phonetic, rest } = extractPhonetic(definition.trim());
+  const senses: DefinitionSense[] = [];
+
+  const collins = rest.match(COLLINS_CLASS);
+  if (collins) {
+    for (const text of splitSenses(rest.substring(collins[0].length))) senses.push({ pos: collins[1], text });
+    return { phonetic, senses };
+  }
+
+  // Cut the text at every part-of-speech tag; text before the first tag has no POS
+  const tags = [...rest.matchAll(POS_SEGMENT)];
+  let cursor = 0;
+  let pos: string | undefined;
+  for (const tag of tags) {
+    const tagStart = tag.index! + tag[1].length;
+    for (const text of splitSenses(rest.substring(cursor, tagStart))) senses.push({ pos, text });
+    pos = tag[2].replace(/\s+/g, '');
+    cursor = tagStart + tag[2].length;
+  }
+  for (const text of splitSenses(rest.substring(cursor))) senses.push({ pos, text });
+
+  return { phonetic, senses };
+};
+
+// Fill in the structured fields of an item from its definition
+export const structureDefinition = <T extends VocabularyItem>(item: T): T => {
+  const { phonetic, senses } = parseDefinition(item.definition);
+  const { phonetic: _, ...rest } = item;
+  return phonetic ? { ...rest, phonetic, senses } as T : { ...rest, senses } as T;
+};
+
+// Items saved before definitions were structured are parsed on the fly
+export const getSenses = (item: VocabularyItem): DefinitionSense[] => {
+  if (item.senses && item.senses.length > 0) return item.senses;
+  const { senses } = parseDefinition(item.definition);
+  return senses.length > 0 ? senses : [{ text: item.definition }];
+};
+
+export const getPhonetic = (item: VocabularyItem): string | undefined => {
+  return item.senses ? item.phonetic : parseDefinition(item.definition).phonetic;
+};
+
+// The first meaning only, for places with room for a few words (matching bubbles)
+export const primarySense = (item: VocabularyItem): string => getSenses(item)[0].text;
+
+// Consecutive senses sharing a part of speech, for rendering "n. 1. ... 2. ..."
+export const groupSenses = (senses: DefinitionSense[]): SenseGroup[] => {
+  const groups: SenseGroup[] = [];
+  for (const sense of senses) {
+    const last = groups[groups.length - 1];
+    if (last && last.pos === sense.pos) last.meanings.push(sense.text);
+    else groups.push({ pos: sense.pos, meanings: [sense.text] });
+  }
+  return groups;
+};
+
+const TAG_ALIASES: Record<string, string> = { vt: 'v', vi: 'v', verb: 'v', noun: 'n', a: 'adj', ad: 'adv' };
+
+// Normalised tags of a POS label ("adj./adv." -> ['adj', 'adv']); transitive / intransitive collapse onto "v"
+export const posTags = (pos: string): string[] => {
+  return pos
+    .split(/[\/&,.\s]+/)
+    .map(tag => tag.toLowerCase().split('-')[0])
+    .filter(Boolean)
+    .map(tag => TAG_ALIASES[tag] || tag);
+};
@@ -0,0 +1,36 @@
+import { StudyDirection } from '../types';
+
+// Study direction helpers shared by flashcards and quiz.
+
+export const DIRECTION_ORDER: StudyDirection[] = ['word-def', 'def-word', 'mixed'];
+
+export const DIRECTION_LABELS: Record<StudyDirection, string> = {
+  'word-def': 'EN → 中',
+  'def-word': '中 → EN',
+  'mixed': 'Mixed',
+};
+
+export const nextDirection = (current: StudyDirection): StudyDirection => {
+  return DIRECTION_ORDER[(DIRECTION_ORDER.indexOf(current) + 1) % DIRECTION_ORDER.length];
+};
+
+// A fresh seed per study session, so "mixed" asks a word a different way next time
+export const createDirectionSeed = (): number => Math.floor(Math.random() * 0x7fffffff);
+
+// Resolve "mixed" to a concrete direction per card.
+// Hashes the card with the session seed: a card keeps its side across re-renders
+// within a session, but each session deals the sides anew.
+export const resolveDirection = (direction: StudyDirection, itemId: string, seed: number): 'word-def' | 'def-word' => {
+  if (direction !== 'mixed') return direction;
+  let hash = seed | 0;
+  for (let i = 0; i < itemId.length; i++) {
+    hash = (hash * 31 + itemId.charCodeAt(i)) | 0;
+  }
+  // Mix the bits, otherwise the seed would only flip every card at once
+  hash ^= hash >>> 16;
+  hash = Math.imul(hash, 0x85ebca6b);
+  hash ^= hash >>> 13;
+  hash = Math.imul(hash, 0xc2b2ae35);
+  hash ^= hash >>> 16;
+  return (hash & 1) === 0 ? 'word-def' : 'def-word';
+};
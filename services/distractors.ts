@@ -0,0 +1,137 @@
+import { VocabularyItem, ReviewLogEntry, DistractorDifficulty } from '../types';
+import { getSenses, posTags } from './definitions';
+
+// Distractor engine for QuizMode.
+// Scores every candidate by how easily it could be confused with the target and
+// samples wrong options according to the selected difficulty.
+
+export const DIFFICULTY_ORDER: DistractorDifficulty[] = ['easy', 'normal', 'hard'];
+
+export const DIFFICULTY_LABELS: Record<DistractorDifficulty, string> = {
+  'easy': 'Easy',
+  'normal': 'Normal',
+  'hard': 'Hard',
+};
+
+export const nextDifficulty = (current: DistractorDifficulty): DistractorDifficulty => {
+  return DIFFICULTY_ORDER[(DIFFICULTY_ORDER.indexOf(current) + 1) % DIFFICULTY_ORDER.length];
+};
+
+// Symmetric lookup of word pairs the user has mixed up before: id -> (other id -> count)
+export type ConfusionIndex = Map<string, Map<string, number>>;
+
+// Helper: Every part-of-speech tag of a word ("adj./adv. 快的" -> ['adj', 'adv'])
+export const parsePartOfSpeech = (item: VocabularyItem): string[] => {
+  const tags = getSenses(item).flatMap(sense => sense.pos ? posTags(sense.pos) : []);
+  return Array.from(new Set(tags));
+};
+
+const editDistance = (a: string, b: string): number => {
+  if (a === b) return 0;
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const curr = [i];
+    for (let j = 1; j <= b.length; j++) {
+      curr[j] = Math.min(prev[j] + 1, curr[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    prev = curr;
+  }
+  return prev[b.length];
+};
+
+const sharedPrefix = (a: string, b: string): number => {
+  let i = 0;
+  while (i < a.length && i < b.length && a[i] === b[i]) i++;
+  return i;
+};
+
+const sharedSuffix = (a: string, b: string): number => {
+  let i = 0;
+  while (i < a.length && i < b.length && a[a.length - 1 - i] === b[b.length - 1 - i]) i++;
+  return i;
+};
+
+// 0..1 spelling similarity: normalised edit distance plus shared affixes (in-, -tion, ...)
+const orthographicSimilarity = (a: string, b: string): number => {
+  const x = a.toLowerCase();
+  const y = b.toLowerCase();
+  const maxLen = Math.max(x.length, y.length) || 1;
+  const distanceScore = 1 - editDistance(x, y) / maxLen;
+  const affixScore = Math.min(1, (Math.max(0, sharedPrefix(x, y) - 1) + Math.max(0, sharedSuffix(x, y) - 1)) / 6);
+  return Math.max(distanceScore, affixScore);
+};
+
+export const buildConfusionIndex = (history: ReviewLogEntry[]): ConfusionIndex => {
+  const index: ConfusionIndex = new Map();
+  const add = (a: string, b: string) => {
+    if (!index.has(a)) index.set(a, new Map());
+    const row = index.get(a)!;
+    row.set(b, (row.get(b) || 0) + 1);
+  };
+  for (const entry of history) {
+    if (entry.correct || !entry.confusedWithId) continue;
+    add(entry.wordId, entry.confusedWithId);
+    add(entry.confusedWithId, entry.wordId);
+  }
+  return index;
+};
+
+export const scoreCandidate = (target: VocabularyItem, candidate: VocabularyItem, targetPos: string[], confusions?: ConfusionIndex): number => {
+  let score = 0;
+
+  const candidatePos = parsePartOfSpeech(candidate);
+  if (targetPos.length > 0 && candidatePos.some(tag => targetPos.includes(tag))) score += 2;
+
+  score += orthographicSimilarity(target.word, candidate.word) * 3;
+
+  if (target.sourceId && candidate.sourceId === target.sourceId) score += 0.5;
+
+  const confusedCount = confusions?.get(target.id)?.get(candidate.id) || 0;
+  if (confusedCount > 0) score += 3 + Math.min(confusedCount, 3);
+
+  return score;
+};
+
+const shuffle = <T,>(items: T[]): T[] => {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+export const pickDistractors = (
+  target: VocabularyItem,
+  pool: VocabularyItem[],
+  options: { count?: number; difficulty?: DistractorDifficulty; confusions?: ConfusionIndex } = {}
+): VocabularyItem[] => {
+  const { count = 3, difficulty = 'normal', confusions } = options;
+
+  // Never offer an option that reads the same as the answer
+  const targetWord = target.word.toLowerCase();
+  const candidates = pool.filter(item =>
+    item.id !== target.id &&
+    item.word.toLowerCase() !== targetWord &&
+    item.definition !== target.definition
+  );
+
+  // Easy: the original behaviour, uniformly random wrong options
+  if (difficulty === 'easy' || candidates.length <= count) {
+    return shuffle(candidates).slice(0, count);
+  }
+
+  const targetPos = parsePartOfSpeech(target);
+  const ranked = candidates
+    // Small jitter so equal scores do not always produce the same options
+    .map(item => ({ item, score: scoreCandidate(target, item, targetPos, confusions) + Math.random() * 0.3 }))
+    .sort((a, b) => b.score - a.score);
+
+  if (difficulty === 'hard') {
+    return ranked.slice(0, count).map(r => r.item);
+  }
+
+  // Normal: sample from a wider band of plausible candidates
+  const band = ranked.slice(0, Math.max(count * 4, 12)).map(r => r.item);
+  return shuffle(band).slice(0, count);
+};
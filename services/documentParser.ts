@@ -0,0 +1,136 @@
+import { ParsingProfile, DefinitionScript } from '../types';
+import { ExtractionReport, ocrPdfPages } from './pdfProcessor';
+import { recognizeImage, isImageFile } from './ocr';
+
+// Main-thread side of document parsing. Each document gets its own parser worker, so a
+// cancelled import is stopped by terminating the workers it started.
+
+export type DocumentKind = 'pdf' | 'docx' | 'txt' | 'image';
+
+export type ParserRequest =
+  | { type: 'read'; kind: 'pdf' | 'docx'; data: ArrayBuffer }
+  | { type: 'extract'; text: string; profile?: ParsingProfile; script?: DefinitionScript };
+
+export type ParserResponse =
+  | { type: 'progress'; page: number; total: number }
+  | { type: 'pages'; pages: string[] }
+  | { type: 'report'; report: ExtractionReport }
+  | { type: 'error'; message: string };
+
+export interface ParseProgress {
+  stage: 'reading' | 'ocr';
+  page: number;
+  total: number;
+}
+
+export interface ParseOptions {
+  profile?: ParsingProfile;
+  script?: DefinitionScript;
+  onProgress?: (progress: ParseProgress) => void;
+  signal?: AbortSignal;
+}
+
+// Documents parsed at the same time in a batch import
+export const MAX_PARALLEL_DOCUMENTS = 2;
+
+export const documentKind = (file: File): DocumentKind | null => {
+  const lowerName = file.name.toLowerCase();
+  if (file.type === 'application/pdf' || lowerName.endsWith('.pdf')) return 'pdf';
+  if (file.type === 'text/plain' || lowerName.endsWith('.txt')) return 'txt';
+  if (
+    file.type === 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' ||
+    lowerName.endsWith('.docx')
+  ) return 'docx';
+  if (isImageFile(file.name)) return 'image';
+  return null;
+};
+
+const cancelledError = () => new DOMException('Import cancelled', 'AbortError');
+
+export const isCancelled = (err: unknown): boolean => err instanceof DOMException && err.name === 'AbortError';
+
+// Helper: Send one request and wait for its final response, forwarding page progress
+const call = (worker: Worker, request: ParserRequest, onPage?: (page: number, total: number) => void, signal?: AbortSignal): Promise<ParserResponse> => {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => reject(cancelledError());
+    signal?.addEventListener('abort', onAbort, { once: true });
+    const settle = () => signal?.removeEventListener('abort', onAbort);
+
+    worker.onmessage = (event: MessageEvent<ParserResponse>) => {
+      const response = event.data;
+      if (response.type === 'progress') {
+        onPage?.(response.page, response.total);
+        return;
+      }
+      settle();
+      if (response.type === 'error') reject(new Error(response.message));
+      else resolve(response);
+    };
+    worker.onerror = (event) => {
+      settle();
+      reject(new Error(event.message || 'Parser worker failed'));
+    };
+
+    const transfer = request.type === 'read' ? [request.data] : [];
+    worker.postMessage(request, transfer);
+  });
+};
+
+// Text of a document; scanned PDF pages and photos are recognised on the main thread
+const readText = async (worker: Worker, file: File, kind: DocumentKind, options: ParseOptions): Promise<string> => {
+  const { onProgress, signal } = options;
+  const onOcrPage = (page: number, total: number) => onProgress?.({ stage: 'ocr', page, total });
+
+  if (kind === 'txt') return file.text();
+  if (kind === 'image') {
+    onOcrPage(1, 1);
+    // Recognition itself cannot be interrupted; drop its result if the import was cancelled meanwhile
+    const text = await recognizeImage(file);
+    if (signal?.aborted) throw cancelledError();
+    return text;
+  }
+
+  const response = await call(
+    worker,
+    { type: 'read', kind, data: await file.arrayBuffer() },
+    (page, total) => onProgress?.({ stage: 'reading', page, total }),
+    signal
+  );
+  if (response.type !== 'pages') throw new Error('Unexpected parser response');
+  if (kind === 'docx') return response.pages[0];
+
+  // ocrPdfPages stops between pages once cancelled; the pages it skipped must not be parsed
+  const pages = await ocrPdfPages(file, response.pages, onOcrPage, signal);
+  if (signal?.aborted) throw cancelledError();
+  return pages.map(text => text + '\n').join('');
+};
+
+export const parseDocument = async (file: File, options: ParseOptions = {}): Promise<ExtractionReport> => {
+  const kind = documentKind(file);
+  if (!kind) throw new Error('Unsupported type');
+  if (options.signal?.aborted) throw cancelledError();
+
+  const worker = new Worker(new URL('./parser.worker.ts', import.meta.url), { type: 'module' });
+  try {
+    const text = await readText(worker, file, kind, options);
+    if (options.signal?.aborted) throw cancelledError();
+
+    const response = await call(worker, { type: 'extract', text, profile: options.profile, script: options.script }, undefined, options.signal);
+    if (response.type !== 'report') throw new Error('Unexpected parser response');
+    return response.report;
+  } finally {
+    worker.terminate();
+  }
+};
+
+// Run a task for every item with at most `limit` running at once; stops starting new ones once aborted
+export const forEachLimited = async <T>(items: T[], limit: number, task: (item: T, index: number) => Promise<void>, signal?: AbortSignal): Promise<void> => {
+  let next = 0;
+  const run = async () => {
+    while (next < items.length && !signal?.aborted) {
+      const index = next++;
+      await task(items[index], index);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, run));
+};
@@ -0,0 +1,108 @@
+import { VocabularyItem } from '../types';
+import { getSenses, structureDefinition } from './definitions';
+
+// The same word imported from several sources: grouping, merging and linking.
+// Linked items share a `linkId` and keep one level / schedule between them.
+
+export interface DuplicateGroup {
+  key: string; // Normalised spelling
+  items: VocabularyItem[];
+}
+
+// "Abandon", "abandon " and "abandon." are the same word; accents and width variants fold too
+export const normalizeWord = (word: string): string => {
+  return word
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu, '')
+    .replace(/\s+/g, ' ');
+};
+
+// Groups of two or more items with the same normalised word, in list order
+export const findDuplicateGroups = (vocab: VocabularyItem[]): DuplicateGroup[] => {
+  const groups = new Map<string, VocabularyItem[]>();
+  for (const item of vocab) {
+    const key = normalizeWord(item.word);
+    if (!key) continue;
+    groups.set(key, [...(groups.get(key) || []), item]);
+  }
+  return Array.from(groups.entries())
+    .filter(([, items]) => items.length > 1)
+    .map(([key, items]) => ({ key, items }));
+};
+
+// A group the user already resolved by linking every copy together
+export const isLinkedGroup = (group: DuplicateGroup): boolean => {
+  const linkId = group.items[0].linkId;
+  return !!linkId && group.items.every(item => item.linkId === linkId);
+};
+
+// The item whose progress wins: highest level, then the longer interval
+export const strongestItem = (items: VocabularyItem[]): VocabularyItem => {
+  return items.reduce((best, item) => {
+    if (item.level !== best.level) return item.level > best.level ? item : best;
+    return (item.srs?.interval ?? 0) > (best.srs?.interval ?? 0) ? item : best;
+  });
+};
+
+const senseKey = (text: string) => text.replace(/[\s\p{P}]+/gu, '').toLowerCase();
+
+// Helper: Senses of the other items that the survivor does not already have, as "pos text"
+const extraSenses = (survivor: VocabularyItem, others: VocabularyItem[]): string[] => {
+  const known = new Set(getSenses(survivor).map(sense => senseKey(sense.text)));
+  const extras: string[] = [];
+  for (const other of others) {
+    for (const sense of getSenses(other)) {
+      const key = senseKey(sense.text);
+      if (!key || known.has(key)) continue;
+      known.add(key);
+      extras.push(sense.pos ? `${sense.pos} ${sense.text}` : sense.text);
+    }
+  }
+  return extras;
+};
+
+const unique = (values: string[]): string[] => Array.from(new Set(values));
+
+// Fold a group into its strongest item: its id, source and schedule are kept,
+// definitions / examples / tags of the others are added to it
+export const mergeItems = (items: VocabularyItem[]): { merged: VocabularyItem; removedIds: string[] } => {
+  const survivor = strongestItem(items);
+  const others = items.filter(item => item.id !== survivor.id);
+  const extras = extraSenses(survivor, others);
+
+  const examples = unique(items.flatMap(item => item.examples || []));
+  const tags = unique(items.flatMap(item => item.tags || []));
+  const { linkId: _, ...rest } = survivor;
+  const merged = structureDefinition({
+    ...rest,
+    definition: extras.length > 0 ? `${survivor.definition}; ${extras.join('; ')}` : survivor.definition,
+    ...(items.some(item => item.marked) ? { marked: true } : {}),
+    ...(examples.length > 0 ? { examples } : {}),
+    ...(tags.length > 0 ? { tags } : {})
+  });
+  return { merged, removedIds: others.map(item => item.id) };
+};
+
+// Link a group: every item takes the strongest item's level and schedule
+export const linkItems = (items: VocabularyItem[]): VocabularyItem[] => {
+  const leader = strongestItem(items);
+  const linkId = leader.linkId || leader.id;
+  return items.map(item => ({ ...item, linkId, level: leader.level, srs: leader.srs }));
+};
+
+export const unlinkItem = (item: VocabularyItem): VocabularyItem => {
+  const { linkId: _, ...rest } = item;
+  return rest;
+};
+
+// Copy the level and schedule of `changed` to the items linked to it
+export const propagateLinked = (vocab: VocabularyItem[], changed: VocabularyItem): VocabularyItem[] => {
+  if (!changed.linkId) return vocab;
+  return vocab.map(item =>
+    item.linkId === changed.linkId && item.id !== changed.id
+      ? { ...item, level: changed.level, srs: changed.srs }
+      : item
+  );
+};
@@ -0,0 +1,35 @@
+// Offline text recognition for scanned PDF pages and photos of word lists.
+// The Tesseract worker, WASM core and language data are copied to /ocr/ at build time
+// (see vite.config.ts), so nothing is downloaded when a scan is imported.
+
+import type { Worker } from 'tesseract.js';
+
+const OCR_LANGUAGES = ['eng', 'chi_sim'];
+
+let workerPromise: Promise<Worker> | null = null;
+
+// Helper: Start one shared worker; the language data takes a few seconds to load
+const loadWorker = (): Promise<Worker> => {
+  if (workerPromise) return workerPromise;
+
+  const base = new URL('ocr/', document.baseURI).href;
+  const promise: Promise<Worker> = import('tesseract.js').then(({ createWorker }) =>
+    createWorker(OCR_LANGUAGES, 1, {
+      workerPath: `${base}worker.min.js`,
+      corePath: `${base}core`,
+      langPath: `${base}lang`,
+    })
+  );
+  promise.catch(() => { workerPromise = null; });
+  workerPromise = promise;
+  return promise;
+};
+
+export const isImageFile = (name: string): boolean => /\.(jpe?g|png)$/i.test(name);
+
+// Text of one image (a photo, or a PDF page rendered to a canvas), lines separated by newlines
+export const recognizeImage = async (image: File | Blob | HTMLCanvasElement): Promise<string> => {
+  const worker = await loadWorker();
+  const { data } = await worker.recognize(image);
+  return data.text || '';
+};
@@ -0,0 +1,28 @@
+import pdfjsWorker from 'pdfjs-dist/build/pdf.worker.js';
+import { readPdfPages, readDocx, extractVocabulary } from './pdfProcessor';
+import { ParserRequest, ParserResponse } from './documentParser';
+
+// Document parsing off the main thread. pdf.js finds its worker code on the global scope
+// and runs it in-process here, so a large PDF never blocks the UI.
+self.pdfjsWorker = pdfjsWorker;
+
+const post = (response: ParserResponse, transfer: Transferable[] = []) => {
+  (self as unknown as Worker).postMessage(response, transfer);
+};
+
+self.onmessage = async (event: MessageEvent<ParserRequest>) => {
+  const request = event.data;
+  try {
+    if (request.type === 'extract') {
+      post({ type: 'report', report: extractVocabulary(request.text, request.profile, request.script) });
+      return;
+    }
+
+    const pages = request.kind === 'pdf'
+      ? await readPdfPages(request.data, (page, total) => post({ type: 'progress', page, total }))
+      : [await readDocx(request.data)];
+    post({ type: 'pages', pages });
+  } catch (err: any) {
+    post({ type: 'error', message: err?.message || 'Parse error' });
+  }
+};
@@ -0,0 +1,88 @@
+import { ParsingProfile } from '../types';
+
+// Named rule sets for extractVocabulary. Built-in profiles ship with the app,
+// custom ones live in the workspace save data.
+
+export const DEFAULT_STOP_WORDS = ['page', 'list', 'unit', 'story', 'section', 'part', 'vocabulary', 'word', 'audio', 'track', 'chapter'];
+
+export const DEFAULT_PROFILE_ID = 'standard';
+
+export const BUILT_IN_PROFILES: ParsingProfile[] = [
+  {
+    // The original heuristics: optional bullet, word, definition containing Chinese
+    id: DEFAULT_PROFILE_ID,
+    name: 'Standard word list',
+    builtIn: true,
+    linePattern: '^\\s*(?:[\\u2610\\u2611\\uF0A3\\u25A1\\u25CF#\\-\\*]|\\s*\\[[\\sxX]?\\]|\\s*[oO]|\\d+\\.)?\\s*([a-zA-Z\\-]{2,})\\s+((?:[a-z]{1,4}\\.|[a-z]+\\/[a-z]+\\.)?.*)$',
+    requireScript: true,
+    stopWords: DEFAULT_STOP_WORDS,
+    skipToLastMarker: true,
+    streamFallback: true,
+  },
+  {
+    // "1. abandon [əˈbændən] vt. 放弃" — numbered, phonetics, POS always present.
+    // Phonetics stay in the definition, where parseDefinition picks them up.
+    // Books repeat "List N" on every page, so no header skipping.
+    id: 'new-oriental',
+    name: 'New Oriental word list',
+    builtIn: true,
+    linePattern: '^\\s*(?:\\d+[.、)]?\\s*)?(?:[\\u2610\\u2611\\u25A1\\u25CF]\\s*)?([a-zA-Z][a-zA-Z\\-\']*(?: [a-zA-Z\\-\']+)*)(?:\\s+|\\s*(?=[\\[/]))((?:[\\[/][^\\]/]*[\\]/]\\s*)?(?:[a-z]{1,5}\\.|[a-z]+\\/[a-z]+\\.).*)$',
+    requireScript: true,
+    stopWords: DEFAULT_STOP_WORDS,
+    skipToLastMarker: false,
+    streamFallback: false,
+  },
+  {
+    // "abandon ★★★ /əˈbændən/ VERB 放弃" — frequency stars, phonetics, upper-case word class
+    id: 'collins',
+    name: 'Collins-style',
+    builtIn: true,
+    linePattern: '^\\s*([a-zA-Z][a-zA-Z\\-\']*(?: [a-zA-Z\\-\']+)*?)\\s+(?:[★☆●◆]+\\s*)?((?:[\\[/][^\\]/]*[\\]/]\\s*)?(?:[A-Z][A-Z\\-]+\\s+)?.*)$',
+    requireScript: true,
+    stopWords: [],
+    skipToLastMarker: false,
+    streamFallback: false,
+  },
+  {
+    id: 'tab-separated',
+    name: 'Plain tab-separated',
+    builtIn: true,
+    delimiter: '\t',
+    requireScript: false,
+    stopWords: [],
+    skipToLastMarker: false,
+    streamFallback: false,
+  },
+];
+
+export const listProfiles = (custom: ParsingProfile[]): ParsingProfile[] => [...BUILT_IN_PROFILES, ...custom];
+
+// Unknown ids (e.g. a deleted custom profile) fall back to the standard rules
+export const resolveProfile = (id: string | undefined, custom: ParsingProfile[]): ParsingProfile => {
+  return listProfiles(custom).find(p => p.id === id) || BUILT_IN_PROFILES[0];
+};
+
+// Returns an error message for unusable rules, or null when the profile can be applied
+export const validateProfile = (profile: ParsingProfile): string | null => {
+  if (!profile.name.trim()) return 'Give the profile a name';
+  if (profile.delimiter !== undefined) {
+    return profile.delimiter.length > 0 ? null : 'Enter a delimiter';
+  }
+  if (!profile.linePattern) return 'Enter a line pattern';
+  try {
+    // Count capture groups by matching the empty alternative
+    const groups = new RegExp(`${profile.linePattern}|`).exec('')!.length - 1;
+    if (groups < 2) return 'The pattern needs two capture groups: (word) and (definition)';
+  } catch (err: any) {
+    return `Invalid pattern: ${err.message}`;
+  }
+  return null;
+};
+
+export const createCustomProfile = (base: ParsingProfile): ParsingProfile => ({
+  ...base,
+  id: `custom-${Date.now().toString(36)}`,
+  name: `${base.name} (custom)`,
+  builtIn: false,
+  stopWords: [...base.stopWords],
+});
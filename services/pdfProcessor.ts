@@ -1,61 +1,119 @@
 
 
-import { VocabularyItem } from '../types';
-
-// We need to declare the global pdfjsLib variable since we are loading it via script tag
-declare const pdfjsLib: any;
-declare const mammoth: any;
-
-export const parsePdf = async (file: File): Promise<VocabularyItem[]> => {
-  const arrayBuffer = await file.arrayBuffer();
-  const loadingTask = pdfjsLib.getDocument(arrayBuffer);
-  const pdf = await loadingTask.promise;
-  
-  let fullText = '';
+import * as pdfjsLib from 'pdfjs-dist';
+import { TextContent, TextItem } from 'pdfjs-dist/types/src/display/api';
+import pdfWorkerUrl from 'pdfjs-dist/build/pdf.worker.min.js?url';
+import mammoth from 'mammoth';
+import { VocabularyItem, ParsingProfile, DefinitionScript } from '../types';
+import { BUILT_IN_PROFILES } from './parsingProfiles';
+import { structureDefinition } from './definitions';
+import { recognizeImage } from './ocr';
+import { LATIN_GLOSSARY_LINE, detectScript, containsScript, scriptCharClass, closesSpaceGaps } from './scripts';
+
+pdfjsLib.GlobalWorkerOptions.workerSrc = pdfWorkerUrl;
+
+// What the extractor found, kept alongside the line it came from so the import can be reviewed
+export interface ExtractedEntry {
+  item: VocabularyItem;
+  rawLine: string;
+}
+
+export interface SkippedLine {
+  line: string;
+  reason: string;
+}
+
+export interface ExtractionReport {
+  entries: ExtractedEntry[];
+  skipped: SkippedLine[]; // Lines that looked like vocabulary but produced no entry
+  usedFallback: boolean;
+  text: string; // Extracted document text, kept so the source can be re-parsed with another profile
+  profileId: string;
+  script: DefinitionScript;
+}
+
+// Progress within one document: page is 1-based
+export type PageProgress = (page: number, total: number) => void;
+
+// Pages in flight at once; requesting every page of a 300-page PDF together exhausts memory
+const PAGE_BATCH = 8;
+
+// Pages with less text than this are treated as scans
+const MIN_PAGE_TEXT = 20;
+
+// Text of every page, reconstructed from coordinates. Runs in the parser worker.
+export const readPdfPages = async (data: ArrayBuffer, onPage?: PageProgress): Promise<string[]> => {
+  const pdf = await pdfjsLib.getDocument({ data }).promise;
   const numPages = pdf.numPages;
-
-  // Process pages in parallel
-  const pagePromises = [];
-  for (let i = 1; i <= numPages; i++) {
-    pagePromises.push(pdf.getPage(i).then((page: any) => page.getTextContent()));
+  const pageTexts: string[] = new Array(numPages).fill('');
+
+  let done = 0;
+  for (let start = 1; start <= numPages; start += PAGE_BATCH) {
+    const batch = [];
+    for (let i = start; i < start + PAGE_BATCH && i <= numPages; i++) {
+      batch.push(pdf.getPage(i).then(page => page.getTextContent()).then(content => {
+        pageTexts[i - 1] = reconstructPageText(content);
+        onPage?.(++done, numPages);
+      }));
+    }
+    await Promise.all(batch);
   }
 
-  const pageContents = await Promise.all(pagePromises);
+  await pdf.destroy();
+  return pageTexts;
+};
 
-  // Reconstruct text from coordinates
-  for (const content of pageContents) {
-    const pageText = reconstructPageText(content);
-    fullText += pageText + '\n';
+export const isScannedPage = (text: string): boolean => text.replace(/\s/g, '').length < MIN_PAGE_TEXT;
+
+// Recognise image-only pages one at a time. Runs on the main thread: rendering needs a
+// canvas, and the OCR engine has a worker of its own.
+export const ocrPdfPages = async (file: File, pageTexts: string[], onPage?: PageProgress, signal?: AbortSignal): Promise<string[]> => {
+  const scanned = pageTexts.map((text, i) => (isScannedPage(text) ? i : -1)).filter(i => i >= 0);
+  if (scanned.length === 0) return pageTexts;
+
+  const pdf = await pdfjsLib.getDocument(await file.arrayBuffer()).promise;
+  const result = [...pageTexts];
+  try {
+    for (let n = 0; n < scanned.length; n++) {
+      if (signal?.aborted) break;
+      onPage?.(n + 1, scanned.length);
+      const page = await pdf.getPage(scanned[n] + 1);
+      result[scanned[n]] = await recognizeImage(await renderPage(page));
+    }
+  } finally {
+    await pdf.destroy();
   }
-
-  return extractVocabulary(fullText);
+  return result;
 };
 
-export const parseTxt = async (file: File): Promise<VocabularyItem[]> => {
-  const text = await file.text();
-  return extractVocabulary(text);
+export const readDocx = async (data: ArrayBuffer): Promise<string> => {
+  const result = await mammoth.extractRawText({ arrayBuffer: data });
+  return result.value;
 };
 
-export const parseDocx = async (file: File): Promise<VocabularyItem[]> => {
-  const arrayBuffer = await file.arrayBuffer();
-  const result = await mammoth.extractRawText({ arrayBuffer });
-  const text = result.value;
-  return extractVocabulary(text);
+// Helper: Draw a PDF page at twice its nominal size; small print recognises poorly at 72 dpi
+const renderPage = async (page: pdfjsLib.PDFPageProxy): Promise<HTMLCanvasElement> => {
+  const viewport = page.getViewport({ scale: 2 });
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.ceil(viewport.width);
+  canvas.height = Math.ceil(viewport.height);
+  await page.render({ canvasContext: canvas.getContext('2d')!, viewport }).promise;
+  return canvas;
 };
 
 // Helper: Reconstructs text based on X/Y coordinates with improved filtering
-const reconstructPageText = (content: any): string => {
-  let items = content.items;
-  if (!items || items.length === 0) return '';
+const reconstructPageText = (content: TextContent): string => {
+  let items = content.items.filter((item): item is TextItem => 'str' in item);
+  if (items.length === 0) return '';
 
   // 1. FILTERING HEADERS / FOOTERS / NOISE
-  const ys = items.map((i: any) => i.transform[5]);
+  const ys = items.map(i => i.transform[5]);
   const minY = Math.min(...ys);
   const maxY = Math.max(...ys);
   const pageHeight = maxY - minY;
   const HEADER_FOOTER_THRESHOLD = pageHeight * 0.05; // Top/Bottom 5%
 
-  items = items.filter((item: any) => {
+  items = items.filter(item => {
     const str = item.str.trim();
     if (!str) return false;
     
@@ -71,9 +129,79 @@ const reconstructPageText = (content: any): string => {
     return true;
   });
 
-  // 2. GROUP BY ROWS
+  // 2. SPLIT INTO COLUMNS, then read each column top to bottom
+  return detectColumns(items).map(readRows).join('');
+};
+
+// Helper: Text width estimate when pdf.js does not report one
+const itemWidth = (item: TextItem): number => {
+  const fontSize = item.transform[0] || 10;
+  return item.width || (item.str.length * fontSize * 0.5);
+};
+
+// Helper: Splits a page's items into columns (left to right) at vertical gutters.
+// A gutter is an x-range no text crosses. Full-width items (titles, headers) are ignored
+// while looking for gutters and then kept with the column they start in.
+// Tables that put the word and its definition in separate columns also have a gutter,
+// so a split only counts when the left side holds more than bare headwords.
+const detectColumns = (items: TextItem[]): TextItem[][] => {
+  if (items.length < 6) return [items];
+
+  const spans = items.map(item => ({ item, x0: item.transform[4], x1: item.transform[4] + itemWidth(item) }));
+  const left = Math.min(...spans.map(s => s.x0));
+  const right = Math.max(...spans.map(s => s.x1));
+  const width = right - left;
+  const fontSizes = items.map(item => item.transform[0] || 10).sort((a, b) => a - b);
+  const medianFont = fontSizes[Math.floor(fontSizes.length / 2)];
+  const MIN_GUTTER = Math.max(medianFont * 1.5, width * 0.03);
+
+  // Merge the x-ranges of all normal-width items; the holes between them are gutters
+  const covered = spans
+    .filter(s => s.x1 - s.x0 < width * 0.5)
+    .map(s => [s.x0, s.x1])
+    .sort((a, b) => a[0] - b[0]);
+  const gutters: number[] = [];
+  let reach = covered.length > 0 ? covered[0][1] : right;
+  for (const [x0, x1] of covered) {
+    if (x0 - reach >= MIN_GUTTER) gutters.push((reach + x0) / 2);
+    reach = Math.max(reach, x1);
+  }
+  if (gutters.length === 0) return [items];
+
+  const ys = items.map(item => item.transform[5]);
+  const height = Math.max(...ys) - Math.min(...ys);
+  const columnOf = (x: number, cuts: number[]) => cuts.filter(cut => x > cut).length;
+
+  // A real column is tall and reads like entries, not just a list of headwords
+  const isTextColumn = (column: TextItem[]): boolean => {
+    const columnYs = column.map(item => item.transform[5]);
+    if (Math.max(...columnYs) - Math.min(...columnYs) < height * 0.4) return false;
+    const lines = readRows(column).split('\n').filter(line => line.trim());
+    if (lines.length < 3) return false;
+    const bareWords = lines.filter(line => /^[\s\d.]*[A-Za-z][A-Za-z'\- ]*$/.test(line)).length;
+    return bareWords / lines.length < 0.5;
+  };
+
+  // Accept gutters left to right, checking the columns on either side of each
+  const cuts: number[] = [];
+  for (let i = 0; i < gutters.length; i++) {
+    const from = cuts.length > 0 ? cuts[cuts.length - 1] : -Infinity;
+    const to = i + 1 < gutters.length ? gutters[i + 1] : Infinity;
+    const leftColumn = spans.filter(s => s.x0 > from && s.x0 <= gutters[i]).map(s => s.item);
+    const rightColumn = spans.filter(s => s.x0 > gutters[i] && s.x0 <= to).map(s => s.item);
+    if (isTextColumn(leftColumn) && isTextColumn(rightColumn)) cuts.push(gutters[i]);
+  }
+  if (cuts.length === 0) return [items];
+
+  const columns: TextItem[][] = Array.from({ length: cuts.length + 1 }, () => []);
+  for (const s of spans) columns[columnOf(s.x0, cuts)].push(s.item);
+  return columns;
+};
+
+// Helper: Groups items into rows by Y and joins each row left to right
+const readRows = (items: TextItem[]): string => {
   const Y_TOLERANCE = 4; // Pixels difference to be considered same line
-  const rows: { y: number, items: any[] }[] = [];
+  const rows: { y: number, items: TextItem[] }[] = [];
 
   for (const item of items) {
     const y = item.transform[5]; 
@@ -88,26 +216,23 @@ const reconstructPageText = (content: any): string => {
   // Sort rows from Top to Bottom
   rows.sort((a, b) => b.y - a.y);
 
-  // 3. MERGE ROWS
-  let reconstructedPage = '';
+  let text = '';
   for (const row of rows) {
-    // Sort items Left to Right
-    row.items.sort((a, b) => a.transform[4] - b.transform[4]);
+    // Sort items Left to Right (on a copy: callers may read the same items again)
+    const rowItems = [...row.items].sort((a, b) => a.transform[4] - b.transform[4]);
     
     let rowText = '';
-    for (let i = 0; i < row.items.length; i++) {
-        const current = row.items[i];
-        const next = row.items[i+1];
+    for (let i = 0; i < rowItems.length; i++) {
+        const current = rowItems[i];
+        const next = rowItems[i+1];
         
         rowText += current.str;
         
         if (next) {
             // Font size estimate (scaleX)
             const fontSize = current.transform[0] || 10;
-            // Width estimate if missing
-            const currentWidth = current.width || (current.str.length * fontSize * 0.5);
             
-            const endX = current.transform[4] + currentWidth;
+            const endX = current.transform[4] + itemWidth(current);
             const startX = next.transform[4];
             const gap = startX - endX;
 
@@ -123,22 +248,52 @@ const reconstructPageText = (content: any): string => {
         continue;
     }
 
-    reconstructedPage += rowText + '\n';
+    text += rowText + '\n';
   }
 
-  return reconstructedPage;
+  return text;
+};
+
+// Helper: A line with both a Latin word and text in the definition script is probably a vocabulary line.
+// Monolingual glossaries are all Latin, so there a separator has to be present instead.
+const looksLikeVocabulary = (line: string, script: DefinitionScript): boolean => {
+  if (!/[a-zA-Z]{2,}/.test(line)) return false;
+  if (script === 'latin') return /[a-zA-Z]\s*(?:\s[-–—]\s|[:=\t])/.test(line);
+  return containsScript(line, script);
 };
 
-const extractVocabulary = (text: string): VocabularyItem[] => {
-  const vocab: VocabularyItem[] = [];
+// Helper: Markers some books put in front of example sentences ("e.g.", "例：", bullets)
+const EXAMPLE_PREFIX = /^\s*(?:[•●\-\*]|e\.g\.|eg:|\u4f8b[:\uff1a]?|Ex(?:ample)?[.:])\s*/i;
+
+// Helper: An English sentence of at least four words printed under an entry, optionally
+// followed by its translation ("He abandoned the car. 他弃车而去。")
+const looksLikeExample = (line: string, script: DefinitionScript): boolean => {
+  const text = line.replace(EXAMPLE_PREFIX, '');
+  const translationStart = script === 'latin' ? -1 : text.search(new RegExp(scriptCharClass(script)));
+  const sentence = (translationStart === -1 ? text : text.substring(0, translationStart)).trim();
+  return /^["“‘']?[A-Za-z]/.test(sentence) &&
+    /[.!?]["”’']?$/.test(sentence) &&
+    sentence.split(/\s+/).length >= 4;
+};
+
+// Also used to re-parse stored source text with a different profile or definition script.
+// Without a script the document is inspected to pick one.
+export const extractVocabulary = (
+  text: string,
+  profile: ParsingProfile = BUILT_IN_PROFILES[0],
+  script: DefinitionScript = detectScript(text)
+): ExtractionReport => {
+  const entries: ExtractedEntry[] = [];
+  const skipped: SkippedLine[] = [];
   const uniqueKeys = new Set<string>();
+  const usedLines = new Set<string>();
   
   // Words to ignore
-  const stopWords = ['page', 'list', 'unit', 'story', 'section', 'part', 'vocabulary', 'word', 'audio', 'track', 'story', 'chapter'];
+  const stopWords = profile.stopWords.map(w => w.toLowerCase());
 
   // 1. SKIP STORY SECTION 
   const markerRegex = /(?:List|Unit|Chapter)\s*\d+|Vocabulary|词汇表|Word\s*List/gi;
-  const markers = [...text.matchAll(markerRegex)];
+  const markers = profile.skipToLastMarker ? [...text.matchAll(markerRegex)] : [];
   
   let startIndex = 0;
   if (markers.length > 0) {
@@ -156,40 +311,107 @@ const extractVocabulary = (text: string): VocabularyItem[] => {
 
   const processText = text.substring(startIndex);
 
-  // 2. PARSING REGEX
-  // Matches lines starting with optional bullets, then a word (2+ letters), then a definition containing Chinese.
-  const lineRegex = /^\s*(?:[\u2610\u2611\uF0A3\u25A1\u25CF#\-\*]|\s*\[[\sxX]?\]|\s*[oO]|\d+\.)?\s*([a-zA-Z\-]{2,})\s+((?:[a-z]{1,4}\.|[a-z]+\/[a-z]+\.)?.*[\u4e00-\u9fa5].*)$/gm;
+  for (const line of text.substring(0, startIndex).split(/\r\n|\r|\n/)) {
+      if (looksLikeVocabulary(line, script)) skipped.push({ line: line.trim(), reason: 'Before list header' });
+  }
+
+  // 2. LINE RULES
+  // Either the profile's regex (group 1 = word, group 2 = definition) or a plain delimiter split.
+  // The built-in patterns separate word and definition by the change of script, which a
+  // monolingual glossary doesn't have, so it uses the explicit-separator pattern instead.
+  const lineRegex = profile.delimiter !== undefined ? null
+    : script === 'latin' && profile.builtIn ? LATIN_GLOSSARY_LINE
+    : new RegExp(profile.linePattern || '(?!)');
+  const matchLine = (line: string): [string, string] | null => {
+    if (lineRegex) {
+      const m = line.match(lineRegex);
+      return m && m[1] !== undefined && m[2] !== undefined ? [m[1], m[2]] : null;
+    }
+    const cells = line.split(profile.delimiter!);
+    return cells.length >= 2 ? [cells[0], cells.slice(1).join(' ')] : null;
+  };
 
-  let lineMatch;
   let indexCounter = 0;
+
+  // Example sentences belong to the entry above them
+  let lastEntry: ExtractedEntry | null = null;
+  const attachExample = (rawLine: string): boolean => {
+    if (!lastEntry || !rawLine) return false;
+    const examples = lastEntry.item.examples || [];
+    const previous = examples[examples.length - 1];
+    if (
+      previous !== undefined && script !== 'latin' &&
+      !/[a-zA-Z]{2,}/.test(rawLine) && containsScript(rawLine, script) && !containsScript(previous, script)
+    ) {
+      // Translation printed on its own line under the sentence
+      examples[examples.length - 1] = `${previous} ${rawLine}`;
+    } else if (looksLikeExample(rawLine, script)) {
+      examples.push(rawLine.replace(EXAMPLE_PREFIX, ''));
+    } else {
+      return false;
+    }
+    lastEntry.item.examples = examples;
+    usedLines.add(rawLine);
+    return true;
+  };
   
-  while ((lineMatch = lineRegex.exec(processText)) !== null) {
-    const rawWord = lineMatch[1].trim();
-    let rawDef = lineMatch[2].trim();
+  for (const line of processText.split(/\r\n|\r|\n/)) {
+    const rawLine = line.trim();
+
+    // Sentences with a translation would otherwise match as a bogus word ("He" -> "abandoned the car. 他..."),
+    // so check for them first. Glossary entries look like sentences, so there entries win.
+    if (script !== 'latin' && attachExample(rawLine)) continue;
+
+    const lineMatch = matchLine(line);
+    if (!lineMatch) {
+      if (script === 'latin') attachExample(rawLine);
+      continue;
+    }
+
+    const rawWord = lineMatch[0].trim();
+    let rawDef = lineMatch[1].trim();
+
+    if (profile.requireScript && !containsScript(rawDef, script)) continue;
 
     const lowerWord = rawWord.toLowerCase();
     
-    if (stopWords.includes(lowerWord)) continue;
+    if (stopWords.includes(lowerWord)) {
+      skipped.push({ line: rawLine, reason: 'Stop word' });
+      lastEntry = null;
+      continue;
+    }
     if (lowerWord.length < 2 || /^\d+$/.test(lowerWord)) continue;
 
-    const cleanDef = normalizeDefinition(rawDef);
+    const cleanDef = normalizeDefinition(rawDef, script);
     
-    if (!uniqueKeys.has(lowerWord) && cleanDef.length > 0) {
+    if (uniqueKeys.has(lowerWord)) {
+      skipped.push({ line: rawLine, reason: 'Duplicate word' });
+      lastEntry = null;
+    } else if (cleanDef.length === 0) {
+      skipped.push({ line: rawLine, reason: 'Empty definition' });
+      lastEntry = null;
+    } else {
       uniqueKeys.add(lowerWord);
-      vocab.push({
-        id: generateId(),
-        word: rawWord,
-        definition: cleanDef,
-        level: 0,
-        originalIndex: indexCounter++
-      });
+      usedLines.add(rawLine);
+      lastEntry = {
+        item: structureDefinition({
+          id: generateId(),
+          word: rawWord,
+          definition: cleanDef,
+          level: 0,
+          originalIndex: indexCounter++
+        }),
+        rawLine
+      };
+      entries.push(lastEntry);
     }
   }
   
-  // Fallback: Stream parsing if strict mode fails (vocab length < 5)
-  if (vocab.length < 5) {
-      console.log("Strict parsing yielded few results. Trying fallback stream parsing.");
-      const streamRegex = /([a-zA-Z\-]{2,})\s+((?:[a-z]{1,5}\.|[a-z]+\/[a-z]+\.)?\s*[^a-zA-Z\n]*[\u4e00-\u9fa5][^\n]*)/g;
+  // Fallback: Stream parsing if strict mode fails (vocab length < 5).
+  // Relies on the definition starting where the script changes, so not for Latin glossaries.
+  const usedFallback = profile.streamFallback && script !== 'latin' && entries.length < 5;
+  if (usedFallback) {
+      const streamRegex = new RegExp(`([a-zA-Z\\-]{2,})\\s+((?:[a-z]{1,5}\\.|[a-z]+\\/[a-z]+\\.)?\\s*[^a-zA-Z\\n]*${scriptCharClass(script)}[^\\n]*)`, 'g');
       
       let streamMatch;
       while ((streamMatch = streamRegex.exec(processText)) !== null) {
@@ -199,23 +421,42 @@ const extractVocabulary = (text: string): VocabularyItem[] => {
           if (stopWords.includes(w.toLowerCase())) continue;
           
           if (!uniqueKeys.has(w.toLowerCase())) {
+              // The line the match starts on, for the review screen
+              const lineStart = processText.lastIndexOf('\n', streamMatch.index) + 1;
+              const lineEnd = processText.indexOf('\n', streamMatch.index);
+              const rawLine = processText.substring(lineStart, lineEnd === -1 ? undefined : lineEnd).trim();
+
               uniqueKeys.add(w.toLowerCase());
-              vocab.push({
-                  id: generateId(),
-                  word: w,
-                  definition: normalizeDefinition(dRaw),
-                  level: 0,
-                  originalIndex: indexCounter++
+              usedLines.add(rawLine);
+              entries.push({
+                  item: structureDefinition({
+                      id: generateId(),
+                      word: w,
+                      definition: normalizeDefinition(dRaw, script),
+                      level: 0,
+                      originalIndex: indexCounter++
+                  }),
+                  rawLine
               });
           }
       }
   }
 
-  return vocab;
+  // 3. REPORT NEAR MISSES
+  // Vocabulary-looking lines the regexes never matched (odd bullets, word split across lines, ...)
+  const reported = new Set(skipped.map(s => s.line));
+  for (const line of processText.split(/\r\n|\r|\n/)) {
+      const rawLine = line.trim();
+      if (!looksLikeVocabulary(rawLine, script) || usedLines.has(rawLine) || reported.has(rawLine)) continue;
+      reported.add(rawLine);
+      skipped.push({ line: rawLine, reason: 'No match' });
+  }
+
+  return { entries, skipped, usedFallback, text, profileId: profile.id, script };
 };
 
 // Helper: Normalize definition string
-const normalizeDefinition = (def: string): string => {
+const normalizeDefinition = (def: string, script: DefinitionScript): string => {
     // 1. Unicode Normalization (NFC preserves fullwidth punctuation like '（' and '，')
     let clean = def.normalize('NFC');
 
@@ -228,18 +469,26 @@ const normalizeDefinition = (def: string): string => {
     // CJK Radicals Supplement: 2e80-2eff
     // Fullwidth ASCII: ff00-ffef (includes （ ） ， etc.)
     // CJK Symbols/Punctuation: 3000-303f
+    // Hiragana/Katakana: 3040-30ff, Katakana Phonetic Extensions: 31f0-31ff (plus the Kanji above 9fa5)
     
     const cjkChars = '\\u4e00-\\u9fa5\\u2f00-\\u2fd5\\u2e80-\\u2eff';
+    const kanaChars = script === 'kana' ? '\\u3040-\\u30ff\\u31f0-\\u31ff\\u9fa6-\\u9fff' : '';
     const symbolChars = '\\u3000-\\u303f\\uff00-\\uffef';
     
-    const broadCjk = `[${cjkChars}${symbolChars}]`;
+    const broadCjk = `[${cjkChars}${kanaChars}${symbolChars}]`;
 
     // 3. Remove spaces between CJK/Symbol characters (fix PDF reconstruction gaps)
     // Example: "市 （ 立" -> "市（立"
     // We strictly only merge if BOTH sides are CJK or Fullwidth Symbol. 
     // We do NOT merge ASCII to CJK to avoid merging English words with Chinese definitions improperly.
-    const spaceGapRegex = new RegExp(`(${broadCjk})\\s+(?=${broadCjk})`, 'g');
-    clean = clean.replace(spaceGapRegex, '$1');
+    // Hangul, Cyrillic and Latin put real spaces between words, so those are kept.
+    if (closesSpaceGaps(script)) {
+      const spaceGapRegex = new RegExp(`(${broadCjk})\\s+(?=${broadCjk})`, 'g');
+      clean = clean.replace(spaceGapRegex, '$1');
+    } else {
+      // Separator left in front when the line rule didn't consume it ("abandon - to leave")
+      clean = clean.replace(/^\s*[-–—:=]\s*/, '');
+    }
 
     // 4. Remove trailing isolated numbers (page numbers that might have attached to end of line)
     clean = clean.replace(/\s+\d+$/, '');
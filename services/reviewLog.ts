@@ -0,0 +1,47 @@
+import { ReviewLogEntry, GameMode, ReviewRating } from '../types';
+
+// Review history helpers. New answers are appended; entries are only removed or re-pointed
+// when their word is deleted or merged.
+
+export interface AnswerRecord {
+  wordId: string;
+  mode: GameMode;
+  correct: boolean;
+  responseMs: number;
+  levelBefore: number;
+  levelAfter: number;
+  rating?: ReviewRating;
+  confusedWithId?: string;
+}
+
+export const createLogEntry = (record: AnswerRecord, now = Date.now()): ReviewLogEntry => ({
+  id: `${now.toString(36)}-${Math.random().toString(36).substring(2, 7)}`,
+  timestamp: now,
+  ...record,
+  // Clamp absurd values (tab left open, clock changes) so averages stay meaningful
+  responseMs: Math.max(0, Math.min(Math.round(record.responseMs), 10 * 60 * 1000))
+});
+
+// Union two logs by entry id, keeping chronological order
+export const mergeHistory = (current: ReviewLogEntry[], incoming: ReviewLogEntry[]): ReviewLogEntry[] => {
+  const seen = new Set(current.map(e => e.id));
+  const additions = incoming.filter(e => !seen.has(e.id));
+  if (additions.length === 0) return current;
+  return [...current, ...additions].sort((a, b) => a.timestamp - b.timestamp);
+};
+
+// Drop entries for words that no longer exist (e.g. after deleting a source)
+export const pruneHistory = (history: ReviewLogEntry[], wordIds: Set<string>): ReviewLogEntry[] => {
+  return history.filter(e => wordIds.has(e.wordId));
+};
+
+// Point entries of merged-away words at the word they were merged into
+export const remapHistory = (history: ReviewLogEntry[], idMap: Map<string, string>): ReviewLogEntry[] => {
+  return history.map(e => {
+    const wordId = idMap.get(e.wordId) || e.wordId;
+    const confusedWithId = e.confusedWithId && (idMap.get(e.confusedWithId) || e.confusedWithId);
+    if (wordId === e.wordId && confusedWithId === e.confusedWithId) return e;
+    const { confusedWithId: _, ...rest } = e;
+    return confusedWithId && confusedWithId !== wordId ? { ...rest, wordId, confusedWithId } : { ...rest, wordId };
+  });
+};
@@ -0,0 +1,229 @@
+import { ForgeSaveData, GameMode, GameProgress, ReviewLogEntry, VocabularyItem } from '../types';
+import { DAY_MS } from './scheduler';
+import { mergeHistory, remapHistory } from './reviewLog';
+import { propagateLinked, normalizeWord } from './duplicates';
+
+// Merging a .forge file into the current workspace, e.g. study done on a phone and on a laptop.
+// Words present on both sides are compared field by field; when they differ, one copy wins
+// as a whole (by recency, by level, or by the user's choice). Everything else is a union.
+// Words and sources get random ids on import, so the same list imported on two devices is
+// matched by source name and spelling when the ids differ.
+
+export type ConflictPolicy = 'newest' | 'highest' | 'ask';
+export type ConflictSide = 'local' | 'incoming';
+
+export interface WordConflict {
+  id: string;
+  local: VocabularyItem;
+  incoming: VocabularyItem;
+  localTouched: number; // Last study activity on each side, 0 when unknown
+  incomingTouched: number;
+}
+
+export interface MergeSummary {
+  addedWords: number;
+  updatedWords: number; // Conflicts resolved to the file's copy
+  keptWords: number; // Conflicts resolved to the current copy
+  addedSources: number;
+  addedHistory: number;
+  addedProfiles: number;
+  progressModes: string[]; // Game progress entries taken from the file
+}
+
+const PROGRESS_MODES: Record<keyof GameProgress, GameMode> = {
+  flashcard: GameMode.FLASHCARD,
+  quiz: GameMode.QUIZ,
+  matching: GameMode.MATCHING,
+  typing: GameMode.TYPING,
+  cloze: GameMode.CLOZE
+};
+
+// Helper: Latest log timestamp per word id
+const lastActivity = (history: ReviewLogEntry[]): Map<string, number> => {
+  const latest = new Map<string, number>();
+  for (const entry of history) {
+    if (entry.timestamp > (latest.get(entry.wordId) ?? 0)) latest.set(entry.wordId, entry.timestamp);
+  }
+  return latest;
+};
+
+// Helper: Rename the file's sources and words to their local ids where they match a local one
+// under another id. Already-aligned files come back unchanged.
+const alignIncoming = (local: ForgeSaveData, incoming: ForgeSaveData): ForgeSaveData => {
+  const pairUp = <T extends { id: string }>(ours: T[], theirs: T[], keyOf: (item: T) => string): Map<string, string> => {
+    const theirIds = new Set(theirs.map(item => item.id));
+    const ourIds = new Set(ours.map(item => item.id));
+    // Local items the file does not already have under the same id, by match key, in list order
+    const candidates = new Map<string, T[]>();
+    for (const item of ours) {
+      if (theirIds.has(item.id)) continue;
+      const key = keyOf(item);
+      candidates.set(key, [...(candidates.get(key) || []), item]);
+    }
+    const idMap = new Map<string, string>();
+    for (const item of theirs) {
+      if (ourIds.has(item.id)) continue;
+      const match = candidates.get(keyOf(item))?.shift();
+      if (match) idMap.set(item.id, match.id);
+    }
+    return idMap;
+  };
+
+  const sourceMap = pairUp(local.sources, incoming.sources || [], source => source.name);
+  const sourceOf = (item: VocabularyItem) => item.sourceId && (sourceMap.get(item.sourceId) || item.sourceId);
+  const wordMap = pairUp(local.vocab, incoming.vocab, item => `${sourceOf(item) ?? ''}\u001f${normalizeWord(item.word)}`);
+  if (sourceMap.size === 0 && wordMap.size === 0) return incoming;
+
+  return {
+    ...incoming,
+    sources: (incoming.sources || []).map(source => sourceMap.has(source.id) ? { ...source, id: sourceMap.get(source.id)! } : source),
+    vocab: incoming.vocab.map(item => {
+      const id = wordMap.get(item.id) || item.id;
+      const sourceId = item.sourceId && sourceMap.get(item.sourceId);
+      return id === item.id && !sourceId ? item : { ...item, id, ...(sourceId ? { sourceId } : {}) };
+    }),
+    history: remapHistory(incoming.history || [], wordMap)
+  };
+};
+
+// When a word was last studied. Manual level changes leave no log entry, but re-seed the
+// schedule to due = now + interval, so the start of the current interval dates them.
+export const lastTouched = (item: VocabularyItem, activity?: Map<string, number>): number => {
+  const scheduled = item.srs ? Math.min(item.srs.due - item.srs.interval * DAY_MS, Date.now()) : 0;
+  return Math.max(item.srs?.lastReviewed ?? 0, scheduled, activity?.get(item.id) ?? 0);
+};
+
+// Helper: Fields that make two copies of a word different (ids and list order excluded)
+const comparable = (item: VocabularyItem) => JSON.stringify([
+  item.word, item.definition, item.level, item.marked ?? false, item.srs ?? null,
+  item.examples ?? [], item.tags ?? [], item.linkId ?? null
+]);
+
+export const findWordConflicts = (local: ForgeSaveData, file: ForgeSaveData): WordConflict[] => {
+  const incoming = alignIncoming(local, file);
+  const localActivity = lastActivity(local.history || []);
+  const incomingActivity = lastActivity(incoming.history || []);
+  const localById = new Map(local.vocab.map(item => [item.id, item]));
+  const conflicts: WordConflict[] = [];
+  for (const item of incoming.vocab) {
+    const existing = localById.get(item.id);
+    if (!existing || comparable(existing) === comparable(item)) continue;
+    conflicts.push({
+      id: item.id,
+      local: existing,
+      incoming: item,
+      localTouched: lastTouched(existing, localActivity),
+      incomingTouched: lastTouched(item, incomingActivity)
+    });
+  }
+  return conflicts;
+};
+
+// Pick a side for one conflict; ties keep the current copy
+export const resolveConflict = (conflict: WordConflict, policy: Exclude<ConflictPolicy, 'ask'>): ConflictSide => {
+  if (policy === 'highest') {
+    const { local, incoming } = conflict;
+    if (incoming.level !== local.level) return incoming.level > local.level ? 'incoming' : 'local';
+    return (incoming.srs?.interval ?? 0) > (local.srs?.interval ?? 0) ? 'incoming' : 'local';
+  }
+  return conflict.incomingTouched > conflict.localTouched ? 'incoming' : 'local';
+};
+
+export const resolveConflicts = (conflicts: WordConflict[], policy: Exclude<ConflictPolicy, 'ask'>): Map<string, ConflictSide> => {
+  return new Map(conflicts.map(conflict => [conflict.id, resolveConflict(conflict, policy)]));
+};
+
+// Helper: Per game mode, keep the progress of the side that played that mode last
+const mergeProgress = (local: ForgeSaveData, incoming: ForgeSaveData): { progress: GameProgress; taken: string[] } => {
+  const latestByMode = (history: ReviewLogEntry[]) => {
+    const latest = new Map<GameMode, number>();
+    for (const entry of history) {
+      if (entry.timestamp > (latest.get(entry.mode) ?? 0)) latest.set(entry.mode, entry.timestamp);
+    }
+    return latest;
+  };
+  const localLatest = latestByMode(local.history || []);
+  const incomingLatest = latestByMode(incoming.history || []);
+
+  const progress: GameProgress = { ...(local.progress || {}) };
+  const taken: string[] = [];
+  for (const key of Object.keys(PROGRESS_MODES) as (keyof GameProgress)[]) {
+    const theirs = incoming.progress?.[key];
+    if (!theirs) continue;
+    const mode = PROGRESS_MODES[key];
+    if (!progress[key] || (incomingLatest.get(mode) ?? 0) > (localLatest.get(mode) ?? 0)) {
+      (progress as Record<string, unknown>)[key] = theirs;
+      taken.push(key);
+    }
+  }
+  return { progress, taken };
+};
+
+// Combine two workspaces. `choices` holds the winning side per conflicting word id (the local
+// id for words matched by spelling); conflicts without a choice keep the current copy.
+export const mergeSaveData = (
+  local: ForgeSaveData,
+  file: ForgeSaveData,
+  choices: Map<string, ConflictSide>
+): { data: ForgeSaveData; summary: MergeSummary } => {
+  const incoming = alignIncoming(local, file);
+  const incomingById = new Map(incoming.vocab.map(item => [item.id, item]));
+  const localIds = new Set(local.vocab.map(item => item.id));
+
+  let updatedWords = 0;
+  let keptWords = 0;
+  const taken: VocabularyItem[] = [];
+  let vocab = local.vocab.map(item => {
+    const theirs = incomingById.get(item.id);
+    if (!theirs || !choices.has(item.id)) return item;
+    if (choices.get(item.id) === 'local') {
+      keptWords++;
+      return item;
+    }
+    updatedWords++;
+    // List order is local; the position within the source stays where it was
+    const winner = { ...theirs, originalIndex: item.originalIndex };
+    taken.push(winner);
+    return winner;
+  });
+  // A linked copy that won carries its schedule to the rest of its link group
+  for (const item of taken) vocab = propagateLinked(vocab, item);
+
+  const addedVocab = incoming.vocab.filter(item => !localIds.has(item.id));
+  vocab = [...vocab, ...addedVocab];
+
+  const localSourceIds = new Set(local.sources.map(s => s.id));
+  const addedSources = (incoming.sources || []).filter(s => !localSourceIds.has(s.id));
+  const counts = new Map<string, number>();
+  for (const item of vocab) if (item.sourceId) counts.set(item.sourceId, (counts.get(item.sourceId) || 0) + 1);
+  const sources = [...local.sources, ...addedSources].map(s => ({ ...s, wordCount: counts.get(s.id) || 0 }));
+
+  const localHistory = local.history || [];
+  const history = mergeHistory(localHistory, incoming.history || []);
+
+  const localProfiles = local.profiles || [];
+  const addedProfiles = (incoming.profiles || []).filter(p => !localProfiles.some(existing => existing.id === p.id));
+
+  const { progress, taken: progressModes } = mergeProgress(local, incoming);
+
+  return {
+    data: {
+      ...local,
+      timestamp: Date.now(),
+      vocab,
+      sources,
+      progress,
+      history,
+      profiles: [...localProfiles, ...addedProfiles]
+    },
+    summary: {
+      addedWords: addedVocab.length,
+      updatedWords,
+      keptWords,
+      addedSources: addedSources.length,
+      addedHistory: history.length - localHistory.length,
+      addedProfiles: addedProfiles.length,
+      progressModes
+    }
+  };
+};
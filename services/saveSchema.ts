@@ -0,0 +1,296 @@
+import { ForgeSaveData, GameMode, GameProgress, SourceFile } from '../types';
+import { SCRIPT_ORDER } from './scripts';
+import { DIRECTION_ORDER } from './direction';
+import { DIFFICULTY_ORDER } from './distractors';
+
+// Versioned shape of .forge files and the local autosave record.
+// Older files are brought up to the current version one migration at a time,
+// then checked field by field before anything is loaded.
+
+// Version written into .forge exports and the local autosave record
+export const SAVE_FILE_VERSION = '1.1';
+
+// Files without a version predate source support
+const LEGACY_VERSION = '1.0';
+
+const MAX_REPORTED_ISSUES = 8;
+
+export class SaveFileError extends Error {
+  issues: string[];
+
+  constructor(message: string, issues: string[] = []) {
+    super(message);
+    this.name = 'SaveFileError';
+    this.issues = issues;
+  }
+}
+
+type RawSave = Record<string, unknown>;
+
+interface Migration {
+  from: string;
+  to: string;
+  migrate: (data: RawSave) => RawSave;
+}
+
+// Helper: Words that are not grouped by source all go into one
+const addLegacySource = (data: RawSave): RawSave => {
+  const vocab: RawSave[] = Array.isArray(data.vocab) ? data.vocab : [];
+  const sources: SourceFile[] = Array.isArray(data.sources) ? data.sources : [];
+  if (sources.length > 0 || vocab.length === 0) return { ...data, sources };
+  const legacySource: SourceFile = {
+    id: 'legacy_import_' + Date.now(),
+    name: 'Imported Data',
+    enabled: true,
+    dateAdded: Date.now(),
+    wordCount: vocab.length
+  };
+  return { ...data, sources: [legacySource], vocab: vocab.map(v => ({ ...v, sourceId: legacySource.id })) };
+};
+
+const MIGRATIONS: Migration[] = [
+  {
+    // Words were not grouped by source
+    from: '1.0',
+    to: '1.1',
+    migrate: addLegacySource
+  }
+];
+
+// Helper: "1.10" -> [1, 10]; null when the string is not a dotted number
+const parseVersion = (version: string): number[] | null => {
+  return /^\d+(\.\d+)*$/.test(version) ? version.split('.').map(Number) : null;
+};
+
+const compareVersions = (a: number[], b: number[]): number => {
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    const diff = (a[i] ?? 0) - (b[i] ?? 0);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+};
+
+// --- Validation ---
+
+interface FieldRule {
+  expected: string;
+  check: (value: unknown) => boolean;
+  optional?: boolean;
+}
+
+const isString = (v: unknown): v is string => typeof v === 'string';
+const isNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+const isBoolean = (v: unknown): v is boolean => typeof v === 'boolean';
+const isObject = (v: unknown): v is RawSave => v !== null && typeof v === 'object' && !Array.isArray(v);
+const isStringArray = (v: unknown): v is string[] => Array.isArray(v) && v.every(isString);
+const isIndex = (v: unknown): v is number => Number.isInteger(v) && (v as number) >= 0;
+const isLevel = (v: unknown): v is number => isIndex(v) && v <= 3;
+
+const text: FieldRule = { expected: 'a string', check: isString };
+const id: FieldRule = { expected: 'a non-empty string', check: v => isString(v) && v.length > 0 };
+const number: FieldRule = { expected: 'a number', check: isNumber };
+const flag: FieldRule = { expected: 'true or false', check: isBoolean };
+const optional = (rule: FieldRule): FieldRule => ({ ...rule, optional: true });
+const oneOf = (values: readonly string[]): FieldRule => ({ expected: `one of ${values.join(', ')}`, check: v => isString(v) && values.includes(v) });
+const index: FieldRule = { expected: 'a whole number of at least 0', check: isIndex };
+const levels: FieldRule = { expected: 'a list of levels from 0 to 3', check: v => Array.isArray(v) && v.every(isLevel) };
+
+// Helper: Check an object's fields; problems are recorded as "path.field: expected ..."
+const checkFields = (value: unknown, path: string, rules: Record<string, FieldRule>, issues: string[]): boolean => {
+  if (!isObject(value)) {
+    issues.push(`${path}: expected an object`);
+    return false;
+  }
+  for (const [field, rule] of Object.entries(rules)) {
+    const fieldValue = value[field];
+    if (fieldValue === undefined && rule.optional) continue;
+    if (!rule.check(fieldValue)) {
+      issues.push(`${path}.${field}: expected ${rule.expected}${fieldValue === undefined ? ', missing' : ''}`);
+    }
+  }
+  return true;
+};
+
+// Helper: Check every element of an array field
+const checkList = (value: unknown, path: string, checkItem: (item: unknown, itemPath: string) => void, issues: string[], isOptional = false) => {
+  if (value === undefined && isOptional) return;
+  if (!Array.isArray(value)) {
+    issues.push(`${path}: expected a list`);
+    return;
+  }
+  value.forEach((item, index) => checkItem(item, `${path}[${index}]`));
+};
+
+const SCHEDULE_RULES: Record<string, FieldRule> = {
+  due: number,
+  interval: number,
+  ease: number,
+  reps: number,
+  lapses: number,
+  lastReviewed: optional(number)
+};
+
+const VOCAB_RULES: Record<string, FieldRule> = {
+  id,
+  word: text,
+  definition: text,
+  level: { expected: 'a whole number from 0 to 3', check: isLevel },
+  originalIndex: number,
+  sourceId: optional(text),
+  matched: optional(flag),
+  marked: optional(flag),
+  tags: optional({ expected: 'a list of strings', check: isStringArray }),
+  phonetic: optional(text),
+  examples: optional({ expected: 'a list of strings', check: isStringArray }),
+  linkId: optional(text)
+};
+
+const SOURCE_RULES: Record<string, FieldRule> = {
+  id,
+  name: text,
+  enabled: flag,
+  dateAdded: number,
+  wordCount: number,
+  profileId: optional(text),
+  definitionScript: optional(oneOf(SCRIPT_ORDER)),
+  manual: optional(flag)
+};
+
+const HISTORY_RULES: Record<string, FieldRule> = {
+  id,
+  wordId: id,
+  mode: oneOf(Object.values(GameMode)),
+  timestamp: number,
+  correct: flag,
+  responseMs: number,
+  levelBefore: number,
+  levelAfter: number,
+  rating: optional(oneOf(['again', 'hard', 'good', 'easy'])),
+  confusedWithId: optional(text)
+};
+
+const PROFILE_RULES: Record<string, FieldRule> = {
+  id,
+  name: text,
+  builtIn: optional(flag),
+  linePattern: optional(text),
+  delimiter: optional(text),
+  requireScript: flag,
+  stopWords: { expected: 'a list of strings', check: isStringArray },
+  skipToLastMarker: flag,
+  streamFallback: flag
+};
+
+// Quiz answers by question index: the chosen option, or null when skipped
+const ANSWERED_STATE: FieldRule = {
+  expected: 'answers by question number',
+  check: v => isObject(v) && Object.entries(v).every(([key, answer]) => /^\d+$/.test(key) && (answer === null || isIndex(answer)))
+};
+
+const BUBBLE_RULES: Record<string, FieldRule> = {
+  id,
+  uid: id,
+  text,
+  type: oneOf(['word', 'def']),
+  matched: flag,
+  status: oneOf(['default', 'selected', 'wrong', 'success', 'recovering'])
+};
+
+// Saved position of each game mode
+const PROGRESS_RULES: Record<keyof GameProgress, Record<string, FieldRule>> = {
+  flashcard: { index, activeLevels: optional(levels), direction: optional(oneOf(DIRECTION_ORDER)) },
+  quiz: {
+    currentIndex: index,
+    score: index,
+    answeredState: ANSWERED_STATE,
+    activeLevels: optional(levels),
+    direction: optional(oneOf(DIRECTION_ORDER)),
+    difficulty: optional(oneOf(DIFFICULTY_ORDER))
+  },
+  matching: { round: index, activeLevels: optional(levels) },
+  typing: { index, activeLevels: optional(levels) },
+  cloze: { index, activeLevels: optional(levels), useChoices: optional(flag) }
+};
+
+// Helper: Check the saved position of every known game mode; unknown modes are ignored
+const checkProgress = (progress: unknown, issues: string[]) => {
+  if (!checkFields(progress, 'progress', {}, issues)) return;
+  for (const [mode, rules] of Object.entries(PROGRESS_RULES)) {
+    const entry = (progress as RawSave)[mode];
+    if (entry === undefined) continue;
+    const path = `progress.${mode}`;
+    if (!checkFields(entry, path, rules, issues)) continue;
+    if (mode === 'matching' && (entry as RawSave).bubbles !== undefined) {
+      checkList((entry as RawSave).bubbles, `${path}.bubbles`, (bubble, bubblePath) => checkFields(bubble, bubblePath, BUBBLE_RULES, issues), issues);
+    }
+  }
+};
+
+// Every problem found in a save at the current version, as "path: expected ..." lines
+export const validateSaveData = (data: unknown): string[] => {
+  const issues: string[] = [];
+  if (!checkFields(data, 'file', { version: text, timestamp: number }, issues)) return issues;
+  const save = data as RawSave;
+
+  const seenIds = new Set<string>();
+  checkList(save.vocab, 'vocab', (value, path) => {
+    if (!checkFields(value, path, VOCAB_RULES, issues)) return;
+    const item = value as RawSave;
+    if (item.srs !== undefined) checkFields(item.srs, `${path}.srs`, SCHEDULE_RULES, issues);
+    if (item.senses !== undefined) {
+      checkList(item.senses, `${path}.senses`, (sense, sensePath) => checkFields(sense, sensePath, { pos: optional(text), text }, issues), issues);
+    }
+    const itemId = String(item.id);
+    if (seenIds.has(itemId)) issues.push(`${path}.id: "${itemId}" is used by another word`);
+    seenIds.add(itemId);
+  }, issues);
+
+  checkList(save.sources, 'sources', (source, path) => checkFields(source, path, SOURCE_RULES, issues), issues);
+  checkProgress(save.progress, issues);
+  checkList(save.history, 'history', (entry, path) => checkFields(entry, path, HISTORY_RULES, issues), issues, true);
+  checkList(save.profiles, 'profiles', (profile, path) => checkFields(profile, path, PROFILE_RULES, issues), issues, true);
+  return issues;
+};
+
+// Bring a parsed save (file or autosave record) to the current version and validate it.
+// Throws SaveFileError for saves from newer app versions and for invalid content.
+export const readSaveData = (raw: unknown): ForgeSaveData => {
+  if (!isObject(raw)) throw new SaveFileError('This is not a Word Forge save file.');
+  let data = raw as RawSave;
+
+  const rawVersion = data.version === undefined ? LEGACY_VERSION : data.version;
+  const parsed = isString(rawVersion) ? parseVersion(rawVersion) : null;
+  if (!parsed) throw new SaveFileError(`Unrecognised save file version "${String(rawVersion)}".`);
+  let version = rawVersion as string;
+  if (compareVersions(parsed, parseVersion(SAVE_FILE_VERSION)!) > 0) {
+    throw new SaveFileError(`This file was saved by a newer version of Word Forge (format ${version}, this app reads up to ${SAVE_FILE_VERSION}). Update the app to open it.`);
+  }
+
+  while (version !== SAVE_FILE_VERSION) {
+    const migration = MIGRATIONS.find(m => m.from === version);
+    if (!migration) throw new SaveFileError(`No upgrade path from save file version ${version}.`);
+    data = migration.migrate(data);
+    version = migration.to;
+  }
+  // Files of any version without a source list load like 1.0 files, as they always have
+  if (data.sources === undefined) data = addLegacySource(data);
+  data = { ...data, version, timestamp: data.timestamp ?? 0, progress: data.progress ?? {} };
+
+  const issues = validateSaveData(data);
+  if (issues.length > 0) {
+    const shown = issues.slice(0, MAX_REPORTED_ISSUES).join('; ');
+    const more = issues.length > MAX_REPORTED_ISSUES ? ` (and ${issues.length - MAX_REPORTED_ISSUES} more)` : '';
+    throw new SaveFileError(`Invalid save file: ${shown}${more}.`, issues);
+  }
+  return data as unknown as ForgeSaveData;
+};
+
+export const parseSaveFile = (json: string): ForgeSaveData => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    throw new SaveFileError('Failed to parse save file. The file might be corrupted.');
+  }
+  return readSaveData(raw);
+};
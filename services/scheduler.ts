@@ -0,0 +1,104 @@
+import { VocabularyItem, SchedulingState, ReviewRating } from '../types';
+
+// SM-2 style spaced-repetition scheduler.
+// The 0-3 traffic-light level stays the user-facing grade; it is derived from the
+// scheduling interval so every mode keeps working unchanged.
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+const RELEARN_DELAY_MS = 10 * 60 * 1000; // "Again" cards come back within the session window
+
+const DEFAULT_EASE = 2.5;
+const MIN_EASE = 1.3;
+
+// Interval (days) a card is seeded with for each manual level
+const LEVEL_INTERVALS = [0, 1, 7, 21];
+
+// Derive the traffic-light level from a scheduling state
+export const levelFromSchedule = (state: SchedulingState): number => {
+  if (state.reps === 0 || state.interval <= 0) return 0;
+  if (state.interval < 3) return 1;
+  if (state.interval < 21) return 2;
+  return 3;
+};
+
+// Seed a scheduling state from a manual level (legacy saves / manual grading)
+export const seedSchedule = (level: number, now = Date.now(), base?: SchedulingState): SchedulingState => {
+  const clamped = Math.max(0, Math.min(3, level));
+  const interval = LEVEL_INTERVALS[clamped];
+  return {
+    due: now + interval * DAY_MS,
+    interval,
+    ease: base?.ease ?? DEFAULT_EASE,
+    reps: clamped === 0 ? 0 : Math.max(base?.reps ?? 0, clamped),
+    lapses: base?.lapses ?? 0,
+    lastReviewed: base?.lastReviewed
+  };
+};
+
+// Make sure every item carries a scheduling state consistent with its level
+export const ensureSchedules = (items: VocabularyItem[], now = Date.now()): VocabularyItem[] => {
+  return items.map(item => item.srs ? item : { ...item, srs: seedSchedule(item.level, now) });
+};
+
+// Apply a manual level change (traffic lights / arrow keys) to the scheduling state
+export const applyManualLevel = (item: VocabularyItem, level: number, now = Date.now()): VocabularyItem => {
+  const nextLevel = Math.max(0, Math.min(3, level));
+  if (item.srs && levelFromSchedule(item.srs) === nextLevel) {
+    return { ...item, level: nextLevel };
+  }
+  return { ...item, level: nextLevel, srs: seedSchedule(nextLevel, now, item.srs) };
+};
+
+// Grade a review and compute the next interval (SM-2 with four buttons)
+export const reviewItem = (item: VocabularyItem, rating: ReviewRating, now = Date.now()): VocabularyItem => {
+  const prev = item.srs ?? seedSchedule(item.level, now);
+  let { interval, ease, reps, lapses } = prev;
+  let due: number;
+
+  if (rating === 'again') {
+    reps = 0;
+    lapses += 1;
+    interval = 0;
+    ease = Math.max(MIN_EASE, ease - 0.2);
+    due = now + RELEARN_DELAY_MS;
+  } else {
+    if (rating === 'hard') ease = Math.max(MIN_EASE, ease - 0.15);
+    if (rating === 'easy') ease = ease + 0.15;
+
+    if (reps === 0) {
+      interval = rating === 'easy' ? 4 : 1;
+    } else if (reps === 1) {
+      interval = rating === 'hard' ? 3 : rating === 'easy' ? 8 : 6;
+    } else {
+      const factor = rating === 'hard' ? 1.2 : rating === 'easy' ? ease * 1.3 : ease;
+      interval = Math.max(interval + 1, Math.round(interval * factor));
+    }
+    reps += 1;
+    due = now + interval * DAY_MS;
+  }
+
+  const srs: SchedulingState = { due, interval, ease, reps, lapses, lastReviewed: now };
+  return { ...item, srs, level: levelFromSchedule(srs) };
+};
+
+export const isDue = (item: VocabularyItem, now = Date.now()): boolean => {
+  return !!item.srs && item.srs.due <= now;
+};
+
+// Build a review queue of due cards, most overdue first
+export const buildDueQueue = (items: VocabularyItem[], now = Date.now()): VocabularyItem[] => {
+  return items
+    .filter(item => isDue(item, now))
+    .sort((a, b) => (a.srs!.due - b.srs!.due));
+};
+
+// Human readable preview of the interval a rating would produce ("10m", "3d", "2mo")
+export const formatInterval = (item: VocabularyItem, rating: ReviewRating, now = Date.now()): string => {
+  const next = reviewItem(item, rating, now).srs!;
+  const ms = next.due - now;
+  if (ms < DAY_MS) return `${Math.max(1, Math.round(ms / 60000))}m`;
+  const days = Math.round(ms / DAY_MS);
+  if (days < 30) return `${days}d`;
+  if (days < 365) return `${Math.round(days / 30)}mo`;
+  return `${(days / 365).toFixed(1)}y`;
+};
@@ -0,0 +1,56 @@
+import { DefinitionScript } from '../types';
+
+// Writing systems a definition can be in, and how each is recognised and cleaned up.
+
+export const DEFAULT_SCRIPT: DefinitionScript = 'han';
+
+export const SCRIPT_ORDER: DefinitionScript[] = ['han', 'kana', 'hangul', 'cyrillic', 'latin'];
+
+export const SCRIPT_LABELS: Record<DefinitionScript, string> = {
+  han: 'Chinese (Han)',
+  kana: 'Japanese (Kana / Kanji)',
+  hangul: 'Korean (Hangul)',
+  cyrillic: 'Cyrillic',
+  latin: 'English glossary (word – meaning)',
+};
+
+// Character class source per script, for building larger regexes
+const SCRIPT_CHARS: Record<DefinitionScript, string> = {
+  han: '\\u4e00-\\u9fa5',
+  kana: '\\u3040-\\u30ff\\u31f0-\\u31ff\\u4e00-\\u9fff',
+  hangul: '\\uac00-\\ud7af\\u1100-\\u11ff\\u3130-\\u318f',
+  cyrillic: '\\u0400-\\u04ff',
+  latin: 'a-zA-Z\\u00c0-\\u024f',
+};
+
+export const scriptCharClass = (script: DefinitionScript): string => `[${SCRIPT_CHARS[script]}]`;
+
+export const containsScript = (text: string, script: DefinitionScript): boolean => {
+  return new RegExp(scriptCharClass(script)).test(text);
+};
+
+// Monolingual glossaries need an explicit separator between headword and meaning:
+// "abandon - to leave behind", "abandon: to leave behind", "abandon = ..." or a tab
+export const LATIN_GLOSSARY_LINE = /^\s*(?:[•●#\*]|\d+[.)])?\s*([A-Za-z][A-Za-z'\- ]*?)\s*(?:\s[-–—]\s|[:=\t]|\s[–—]|[–—]\s)\s*(\S.*)$/;
+
+// Scripts written without spaces between words, where PDF reconstruction gaps should be closed
+const UNSPACED_SCRIPTS: DefinitionScript[] = ['han', 'kana'];
+
+export const closesSpaceGaps = (script: DefinitionScript): boolean => UNSPACED_SCRIPTS.includes(script);
+
+// Guess the definition script from the document: the most frequent non-Latin script wins,
+// Kanji-heavy Japanese is recognised by any real amount of Kana, and a document with no
+// other script at all is taken to be a monolingual glossary.
+export const detectScript = (text: string): DefinitionScript => {
+  const count = (pattern: RegExp) => (text.match(pattern) || []).length;
+  const han = count(/[\u4e00-\u9fa5]/g);
+  const kana = count(/[\u3040-\u30ff\u31f0-\u31ff]/g);
+  const hangul = count(/[\uac00-\ud7af\u1100-\u11ff\u3130-\u318f]/g);
+  const cyrillic = count(/[\u0400-\u04ff]/g);
+
+  if (han + kana + hangul + cyrillic === 0) return 'latin';
+  if (kana > 0 && kana >= han * 0.1 && kana + han >= hangul && kana + han >= cyrillic) return 'kana';
+  if (hangul >= han && hangul >= cyrillic) return 'hangul';
+  if (cyrillic >= han) return 'cyrillic';
+  return 'han';
+};
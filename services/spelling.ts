@@ -0,0 +1,64 @@
+// Answer checking and character diff for the typing (spelling recall) mode.
+
+export type CharStatus = 'match' | 'wrong' | 'missing' | 'extra';
+
+export interface CharDiff {
+  char: string;
+  status: CharStatus;
+}
+
+// Case, hyphens and spacing are not considered spelling mistakes ("Well-known" == "well known")
+export const normalizeAnswer = (text: string): string => {
+  return text.normalize('NFC').toLowerCase().replace(/[\s\-\u2010-\u2015]+/g, '');
+};
+
+export const isAnswerCorrect = (typed: string, target: string): boolean => {
+  const a = normalizeAnswer(typed);
+  return a.length > 0 && a === normalizeAnswer(target);
+};
+
+// Character-level alignment (Levenshtein backtrace) of the typed answer against the target.
+// Both sides are normalized first so tolerated differences never show up as errors.
+export const diffAnswer = (typed: string, target: string): CharDiff[] => {
+  const a = normalizeAnswer(typed);
+  const b = normalizeAnswer(target);
+  const rows = a.length + 1;
+  const cols = b.length + 1;
+
+  const dist: number[][] = Array.from({ length: rows }, () => new Array(cols).fill(0));
+  for (let i = 0; i < rows; i++) dist[i][0] = i;
+  for (let j = 0; j < cols; j++) dist[0][j] = j;
+
+  for (let i = 1; i < rows; i++) {
+    for (let j = 1; j < cols; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      dist[i][j] = Math.min(dist[i - 1][j] + 1, dist[i][j - 1] + 1, dist[i - 1][j - 1] + cost);
+    }
+  }
+
+  // Walk back from the bottom-right corner, preferring diagonal moves
+  const result: CharDiff[] = [];
+  let i = a.length;
+  let j = b.length;
+  while (i > 0 || j > 0) {
+    if (i > 0 && j > 0 && dist[i][j] === dist[i - 1][j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)) {
+      result.push({ char: a[i - 1] === b[j - 1] ? b[j - 1] : a[i - 1], status: a[i - 1] === b[j - 1] ? 'match' : 'wrong' });
+      i--; j--;
+    } else if (j > 0 && dist[i][j] === dist[i][j - 1] + 1) {
+      result.push({ char: b[j - 1], status: 'missing' });
+      j--;
+    } else {
+      result.push({ char: a[i - 1], status: 'extra' });
+      i--;
+    }
+  }
+
+  return result.reverse();
+};
+
+// Hint text for a word: first letter plus blanks for the remaining letters
+export const buildHint = (word: string, showLength: boolean): string => {
+  const first = word.charAt(0);
+  if (!showLength) return `${first}…`;
+  return first + word.slice(1).replace(/[a-zA-Z]/g, '_');
+};
@@ -0,0 +1,130 @@
+import { VocabularyItem, SourceFile, ReviewLogEntry, GameMode } from '../types';
+
+// Pure aggregations over vocab + review history for the statistics dashboard.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface SourceLevelBreakdown {
+  sourceId: string;
+  name: string;
+  counts: [number, number, number, number]; // Words per level 0..3
+  total: number;
+}
+
+export interface DailyCount {
+  date: number; // Local midnight timestamp
+  count: number;
+}
+
+export interface AccuracyPoint {
+  date: number;
+  correct: number;
+  total: number;
+}
+
+export interface ModeAccuracy {
+  mode: GameMode;
+  correct: number;
+  total: number;
+  points: AccuracyPoint[];
+}
+
+export interface HardWord {
+  item: VocabularyItem;
+  failures: number;
+  attempts: number;
+}
+
+// Helper: Local midnight for a timestamp so days line up with the user's calendar
+export const startOfDay = (ts: number): number => {
+  const d = new Date(ts);
+  d.setHours(0, 0, 0, 0);
+  return d.getTime();
+};
+
+export const levelsBySource = (vocab: VocabularyItem[], sources: SourceFile[]): SourceLevelBreakdown[] => {
+  const rows = new Map<string, SourceLevelBreakdown>();
+  for (const source of sources) {
+    rows.set(source.id, { sourceId: source.id, name: source.name, counts: [0, 0, 0, 0], total: 0 });
+  }
+
+  for (const item of vocab) {
+    const key = item.sourceId && rows.has(item.sourceId) ? item.sourceId : '';
+    if (!rows.has(key)) {
+      rows.set(key, { sourceId: key, name: 'Unassigned', counts: [0, 0, 0, 0], total: 0 });
+    }
+    const row = rows.get(key)!;
+    row.counts[Math.max(0, Math.min(3, item.level))]++;
+    row.total++;
+  }
+
+  return Array.from(rows.values()).filter(r => r.total > 0);
+};
+
+// Reviews per day for the last `days` days (oldest first), including empty days
+export const dailyReviewCounts = (history: ReviewLogEntry[], days: number, now = Date.now()): DailyCount[] => {
+  const today = startOfDay(now);
+  const first = today - (days - 1) * DAY_MS;
+  const buckets = new Map<number, number>();
+
+  for (const entry of history) {
+    if (entry.timestamp < first) continue;
+    const day = startOfDay(entry.timestamp);
+    buckets.set(day, (buckets.get(day) || 0) + 1);
+  }
+
+  const result: DailyCount[] = [];
+  for (let i = 0; i < days; i++) {
+    // Re-normalise each step so DST shifts do not drift the buckets
+    const date = startOfDay(first + i * DAY_MS + DAY_MS / 2);
+    result.push({ date, count: buckets.get(date) || 0 });
+  }
+  return result;
+};
+
+export const accuracyByMode = (history: ReviewLogEntry[], days: number, now = Date.now()): ModeAccuracy[] => {
+  const daily = dailyReviewCounts([], days, now).map(d => d.date);
+  const firstDay = daily[0];
+  const byMode = new Map<GameMode, ModeAccuracy>();
+
+  for (const entry of history) {
+    let acc = byMode.get(entry.mode);
+    if (!acc) {
+      acc = { mode: entry.mode, correct: 0, total: 0, points: daily.map(date => ({ date, correct: 0, total: 0 })) };
+      byMode.set(entry.mode, acc);
+    }
+    acc.total++;
+    if (entry.correct) acc.correct++;
+
+    if (entry.timestamp >= firstDay) {
+      const point = acc.points.find(p => p.date === startOfDay(entry.timestamp));
+      if (point) {
+        point.total++;
+        if (entry.correct) point.correct++;
+      }
+    }
+  }
+
+  return Array.from(byMode.values()).sort((a, b) => b.total - a.total);
+};
+
+export const hardestWords = (vocab: VocabularyItem[], history: ReviewLogEntry[], limit: number): HardWord[] => {
+  const tallies = new Map<string, { failures: number; attempts: number }>();
+  for (const entry of history) {
+    const t = tallies.get(entry.wordId) || { failures: 0, attempts: 0 };
+    t.attempts++;
+    if (!entry.correct) t.failures++;
+    tallies.set(entry.wordId, t);
+  }
+
+  const byId = new Map(vocab.map(item => [item.id, item]));
+  const result: HardWord[] = [];
+  tallies.forEach((t, id) => {
+    const item = byId.get(id);
+    if (item && t.failures > 0) result.push({ item, ...t });
+  });
+
+  return result
+    .sort((a, b) => b.failures - a.failures || (b.failures / b.attempts) - (a.failures / a.attempts))
+    .slice(0, limit);
+};
@@ -0,0 +1,151 @@
+import { ForgeSaveData } from '../types';
+import { SyncState } from './sync';
+
+// Local workspace persistence backed by IndexedDB.
+// The whole workspace is stored as a single ForgeSaveData record so it stays
+// interchangeable with exported .forge files. Extracted document text lives in
+// a separate store keyed by source id; it is local-only and not part of exports.
+// Sync bookkeeping (device id, server cursor, unpushed changes) sits next to the workspace.
+
+const DB_NAME = 'word-forge';
+const DB_VERSION = 2;
+const STORE_NAME = 'workspace';
+const SOURCE_TEXT_STORE = 'sourceText';
+const WORKSPACE_KEY = 'current';
+const SYNC_KEY = 'sync';
+
+export class StorageQuotaError extends Error {
+  constructor(message = 'Browser storage is full') {
+    super(message);
+    this.name = 'StorageQuotaError';
+  }
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available'));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORE_NAME)) {
+        db.createObjectStore(STORE_NAME);
+      }
+      if (!db.objectStoreNames.contains(SOURCE_TEXT_STORE)) {
+        db.createObjectStore(SOURCE_TEXT_STORE);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+  // Allow a retry on the next call if opening failed (e.g. private mode)
+  dbPromise.catch(() => { dbPromise = null; });
+  return dbPromise;
+};
+
+// Helper: Detect quota errors across browsers (Chrome / Firefox / Safari naming differs)
+const isQuotaError = (err: unknown): boolean => {
+  if (!(err instanceof DOMException)) return false;
+  return err.name === 'QuotaExceededError' || err.name === 'NS_ERROR_DOM_QUOTA_REACHED' || err.code === 22;
+};
+
+export const loadWorkspace = async (): Promise<ForgeSaveData | null> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE_NAME, 'readonly');
+    const request = tx.objectStore(STORE_NAME).get(WORKSPACE_KEY);
+    request.onsuccess = () => resolve((request.result as ForgeSaveData | undefined) ?? null);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const saveWorkspace = async (data: ForgeSaveData): Promise<void> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    let tx: IDBTransaction;
+    try {
+      tx = db.transaction(STORE_NAME, 'readwrite');
+      tx.objectStore(STORE_NAME).put(data, WORKSPACE_KEY);
+    } catch (err) {
+      reject(isQuotaError(err) ? new StorageQuotaError() : err);
+      return;
+    }
+    tx.oncomplete = () => resolve();
+    // Quota failures surface on the transaction (abort), not on the put request
+    tx.onabort = () => reject(isQuotaError(tx.error) ? new StorageQuotaError() : tx.error);
+    tx.onerror = () => reject(isQuotaError(tx.error) ? new StorageQuotaError() : tx.error);
+  });
+};
+
+export const loadSyncState = async (): Promise<SyncState | null> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE_NAME, 'readonly');
+    const request = tx.objectStore(STORE_NAME).get(SYNC_KEY);
+    request.onsuccess = () => resolve((request.result as SyncState | undefined) ?? null);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const saveSyncState = async (state: SyncState): Promise<void> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE_NAME, 'readwrite');
+    tx.objectStore(STORE_NAME).put(state, SYNC_KEY);
+    tx.oncomplete = () => resolve();
+    tx.onabort = () => reject(isQuotaError(tx.error) ? new StorageQuotaError() : tx.error);
+    tx.onerror = () => reject(isQuotaError(tx.error) ? new StorageQuotaError() : tx.error);
+  });
+};
+
+export const saveSourceText = async (sourceId: string, text: string): Promise<void> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(SOURCE_TEXT_STORE, 'readwrite');
+    tx.objectStore(SOURCE_TEXT_STORE).put(text, sourceId);
+    tx.oncomplete = () => resolve();
+    tx.onabort = () => reject(isQuotaError(tx.error) ? new StorageQuotaError() : tx.error);
+    tx.onerror = () => reject(isQuotaError(tx.error) ? new StorageQuotaError() : tx.error);
+  });
+};
+
+export const loadSourceText = async (sourceId: string): Promise<string | null> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(SOURCE_TEXT_STORE, 'readonly');
+    const request = tx.objectStore(SOURCE_TEXT_STORE).get(sourceId);
+    request.onsuccess = () => resolve((request.result as string | undefined) ?? null);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const deleteSourceText = async (sourceId: string): Promise<void> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(SOURCE_TEXT_STORE, 'readwrite');
+    tx.objectStore(SOURCE_TEXT_STORE).delete(sourceId);
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+};
+
+// Ask the browser not to evict our data under storage pressure (best effort)
+export const requestPersistentStorage = async (): Promise<boolean> => {
+  try {
+    if (navigator.storage && navigator.storage.persist) {
+      return await navigator.storage.persist();
+    }
+  } catch (err) {
+    console.warn('Persistent storage request failed', err);
+  }
+  return false;
+};
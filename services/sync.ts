@@ -0,0 +1,268 @@
+import { ForgeSaveData, GameProgress, ParsingProfile, ReviewLogEntry, SourceFile, VocabularyItem } from '../types';
+import { SAVE_FILE_VERSION, validateSaveData } from './saveSchema';
+
+// Optional sync through the self-hosted server in server/sync-server.mjs.
+// The workspace is flattened into records and fields ("vocab" / <id> / "level"). Every local
+// change is stamped with the time it was first noticed (the app tracks each snapshot as it
+// changes) and pushed as a delta; the server keeps the latest write per field and a tombstone
+// per deleted record, and hands back what other devices changed since our last cursor.
+
+export type SyncCollection = 'vocab' | 'sources' | 'profiles' | 'history' | 'progress';
+
+export interface SyncChange {
+  collection: SyncCollection;
+  id: string;
+  field?: string; // Absent for deletions
+  value?: unknown; // null clears an optional field
+  deleted?: boolean;
+  t: number; // When the change was made, device clock
+  complete?: boolean; // From the server: every field of the record is in the same answer
+}
+
+export interface SyncState {
+  deviceId: string;
+  serverUrl: string; // Empty when sync is off
+  cursor: number; // Server sequence number received so far
+  seen: Record<string, Record<string, string>>; // Record key -> field -> JSON, as of the last check
+  pending: Record<string, number>; // "<record key><SEP><field>" changed locally, not yet pushed -> time
+}
+
+export class SyncError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SyncError';
+  }
+}
+
+const SEP = '\u001f';
+// Pending key of a record itself: its creation or deletion
+const RECORD_FIELD = '';
+// Log entries and game progress never change field by field: they sync as one value
+const WHOLE = '*';
+const WHOLE_RECORDS: SyncCollection[] = ['history', 'progress'];
+const REQUEST_TIMEOUT_MS = 20000;
+
+const recordKey = (collection: SyncCollection, id: string) => `${collection}${SEP}${id}`;
+
+const splitKey = (key: string): { collection: SyncCollection; id: string; field: string } => {
+  const [collection, id, field = RECORD_FIELD] = key.split(SEP);
+  return { collection: collection as SyncCollection, id, field };
+};
+
+const generateDeviceId = () => Math.random().toString(36).substring(2, 10);
+
+export const createSyncState = (serverUrl = '', deviceId = generateDeviceId()): SyncState => ({
+  deviceId,
+  serverUrl: serverUrl.trim().replace(/\/+$/, ''),
+  cursor: 0,
+  seen: {},
+  pending: {}
+});
+
+// Helper: The workspace as record key -> field -> JSON value
+const flattenWorkspace = (data: ForgeSaveData): Record<string, Record<string, string>> => {
+  const flat: Record<string, Record<string, string>> = {};
+  const addFields = (collection: SyncCollection, record: { id: string }, extra: Record<string, unknown> = {}) => {
+    const fields: Record<string, string> = {};
+    for (const [field, value] of Object.entries({ ...record, ...extra })) {
+      if (field !== 'id' && value !== undefined) fields[field] = JSON.stringify(value);
+    }
+    flat[recordKey(collection, record.id)] = fields;
+  };
+
+  data.vocab.forEach(item => addFields('vocab', item));
+  // Source order is the user's; it travels as a field so reordering syncs too
+  data.sources.forEach((source, index) => addFields('sources', source, { _order: index }));
+  (data.profiles || []).forEach(profile => addFields('profiles', profile));
+  for (const entry of data.history || []) flat[recordKey('history', entry.id)] = { [WHOLE]: JSON.stringify(entry) };
+  for (const [mode, value] of Object.entries(data.progress || {})) {
+    if (value !== undefined) flat[recordKey('progress', mode)] = { [WHOLE]: JSON.stringify(value) };
+  }
+  return flat;
+};
+
+// Helper: Rebuild a workspace from flattened records; known items keep their current order
+const unflattenWorkspace = (flat: Record<string, Record<string, string>>, previous: ForgeSaveData): ForgeSaveData => {
+  const byCollection = new Map<SyncCollection, Map<string, Record<string, unknown>>>();
+  for (const [key, fields] of Object.entries(flat)) {
+    const { collection, id } = splitKey(key);
+    const parsed: Record<string, unknown> = {};
+    for (const [field, json] of Object.entries(fields)) parsed[field] = JSON.parse(json);
+    const records = byCollection.get(collection) || new Map();
+    records.set(id, WHOLE_RECORDS.includes(collection) ? parsed[WHOLE] as Record<string, unknown> : { id, ...parsed });
+    byCollection.set(collection, records);
+  }
+
+  const ordered = <T extends { id: string }>(collection: SyncCollection, current: T[]): T[] => {
+    const records = byCollection.get(collection) || new Map<string, Record<string, unknown>>();
+    const kept = current.filter(item => records.has(item.id)).map(item => records.get(item.id) as unknown as T);
+    const known = new Set(current.map(item => item.id));
+    const added = Array.from(records.entries()).filter(([id]) => !known.has(id)).map(([, record]) => record as unknown as T);
+    return [...kept, ...added];
+  };
+
+  const sources = ordered<SourceFile & { _order?: number }>('sources', previous.sources)
+    .sort((a, b) => (a._order ?? 0) - (b._order ?? 0))
+    .map(({ _order, ...source }) => source);
+  const history = ordered<ReviewLogEntry>('history', previous.history || []).sort((a, b) => a.timestamp - b.timestamp);
+  const progress: GameProgress = {};
+  for (const [mode, value] of byCollection.get('progress') || new Map()) (progress as Record<string, unknown>)[mode] = value;
+
+  return {
+    ...previous,
+    version: SAVE_FILE_VERSION,
+    timestamp: Date.now(),
+    vocab: ordered<VocabularyItem>('vocab', previous.vocab),
+    sources,
+    profiles: ordered<ParsingProfile>('profiles', previous.profiles || []),
+    history,
+    progress
+  };
+};
+
+// Helper: When a record was last changed as far as it tells itself: the last review of a word,
+// the time of a log entry; 0 when unknown
+const recordTime = (key: string, fields: Record<string, string>): number => {
+  const { collection } = splitKey(key);
+  if (collection === 'vocab' && fields.srs) return JSON.parse(fields.srs).lastReviewed ?? 0;
+  if (collection === 'history') return JSON.parse(fields[WHOLE]).timestamp ?? 0;
+  return 0;
+};
+
+// Stamp everything that changed since the last check. Removed records are stamped on the
+// record itself, which is pushed as a tombstone. The first check after connecting dates each
+// record by its own history instead, so a server that already holds newer study keeps it.
+export const trackChanges = (state: SyncState, snapshot: ForgeSaveData, now = Date.now()): SyncState => {
+  const current = flattenWorkspace(snapshot);
+  const initial = state.cursor === 0 && Object.keys(state.seen).length === 0;
+  const pending = { ...state.pending };
+  for (const [key, fields] of Object.entries(current)) {
+    const before = state.seen[key];
+    const t = initial ? recordTime(key, fields) : now;
+    if (!before) pending[`${key}${SEP}${RECORD_FIELD}`] = t;
+    for (const [field, json] of Object.entries(fields)) {
+      if (!before || before[field] !== json) pending[`${key}${SEP}${field}`] = t;
+    }
+    if (before) {
+      for (const field of Object.keys(before)) {
+        if (!(field in fields)) pending[`${key}${SEP}${field}`] = now;
+      }
+    }
+  }
+  for (const key of Object.keys(state.seen)) {
+    if (!current[key]) pending[`${key}${SEP}${RECORD_FIELD}`] = now;
+  }
+  return { ...state, seen: current, pending };
+};
+
+// Helper: Deltas for everything pending, with the values as they are now
+const buildChanges = (state: SyncState): SyncChange[] => {
+  const changes: SyncChange[] = [];
+  for (const [key, t] of Object.entries(state.pending)) {
+    const { collection, id, field } = splitKey(key);
+    const record = state.seen[recordKey(collection, id)];
+    if (field === RECORD_FIELD) {
+      // New records are carried by their fields
+      if (!record) changes.push({ collection, id, deleted: true, t });
+    } else if (record) {
+      changes.push({ collection, id, field, value: field in record ? JSON.parse(record[field]) : null, t });
+    }
+  }
+  return changes;
+};
+
+// Helper: Apply the server's changes, except where this device changed the same thing later.
+// A record this device does not have is only rebuilt from a complete set of fields.
+const applyRemote = (state: SyncState, changes: SyncChange[]): { seen: SyncState['seen']; changed: boolean } => {
+  const seen = { ...state.seen };
+  let changed = false;
+  for (const change of changes) {
+    const key = recordKey(change.collection, change.id);
+    const deletedHere = state.pending[`${key}${SEP}${RECORD_FIELD}`] ?? 0;
+    if (!change.deleted && !seen[key] && !change.complete) continue;
+
+    if (change.deleted) {
+      if (!seen[key]) continue;
+      const editedAfter = Object.keys(seen[key]).some(field => (state.pending[`${key}${SEP}${field}`] ?? 0) > change.t);
+      if (editedAfter) continue;
+      delete seen[key];
+      changed = true;
+      continue;
+    }
+
+    const field = change.field!;
+    if (!seen[key] && deletedHere > change.t) continue;
+    if ((state.pending[`${key}${SEP}${field}`] ?? 0) > change.t) continue;
+    const json = change.value === null || change.value === undefined ? undefined : JSON.stringify(change.value);
+    if (seen[key] && seen[key][field] === json) continue;
+    const fields = { ...(seen[key] || {}) };
+    if (json === undefined) delete fields[field];
+    else fields[field] = json;
+    seen[key] = fields;
+    changed = true;
+  }
+  return { seen, changed };
+};
+
+// Helper: POST with a timeout; network failures surface as TypeError like plain fetch
+const postJson = async (url: string, body: unknown): Promise<any> => {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+      signal: controller.signal
+    });
+    if (!response.ok) throw new SyncError(`Sync server answered ${response.status} ${response.statusText}`.trim());
+    return await response.json();
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+// One push / pull round for the changes tracked in `state`. `getLatest` and `getSnapshot` are
+// read again after the request, so edits tracked while it was in flight stay pending with
+// their own times. `workspace` is null when nothing came in from other devices.
+export const syncWorkspace = async (
+  state: SyncState,
+  getSnapshot: () => ForgeSaveData,
+  getLatest: () => SyncState = () => state
+): Promise<{ state: SyncState; workspace: ForgeSaveData | null }> => {
+  if (!state.serverUrl) throw new SyncError('No sync server configured');
+
+  const tracked = trackChanges(state, getSnapshot());
+  const response = await postJson(`${state.serverUrl}/sync`, {
+    deviceId: state.deviceId,
+    since: state.cursor,
+    changes: buildChanges(tracked)
+  });
+  if (typeof response?.cursor !== 'number' || !Array.isArray(response.changes)) {
+    throw new SyncError('Unexpected answer from the sync server');
+  }
+
+  // Everything pushed is settled; a stamp that changed since then is a newer edit
+  const latest = trackChanges(getLatest(), getSnapshot());
+  const pending: SyncState['pending'] = {};
+  for (const [key, t] of Object.entries(latest.pending)) {
+    if (tracked.pending[key] !== t) pending[key] = t;
+  }
+  const settled: SyncState = { ...latest, pending, cursor: response.cursor };
+
+  const { seen, changed } = applyRemote(settled, response.changes as SyncChange[]);
+  if (!changed) return { state: settled, workspace: null };
+
+  const workspace = unflattenWorkspace(seen, getSnapshot());
+  const issues = validateSaveData(workspace);
+  if (issues.length > 0) throw new SyncError(`Synced data is invalid: ${issues.slice(0, 3).join('; ')}`);
+  return { state: { ...settled, seen }, workspace };
+};
+
+export type SyncPhase = 'off' | 'syncing' | 'synced' | 'offline' | 'error';
+
+export interface SyncStatus {
+  phase: SyncPhase;
+  lastSynced?: number;
+  message?: string;
+}
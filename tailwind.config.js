@@ -0,0 +1,141 @@
+/** @type {import('tailwindcss').Config} */
+export default {
+  content: ['./index.html', './App.tsx', './components/**/*.tsx'],
+  theme: {
+    extend: {
+      colors: {
+        monkey: {
+          bg: '#323437',
+          main: '#e2b714',
+          text: '#d1d0c5',
+          sub: '#646669',
+          error: '#ca4754',
+          caret: '#e2b714'
+        }
+      },
+      fontFamily: {
+        mono: ['"Roboto Mono"', 'monospace', 'sans-serif'],
+        sans: ['system-ui', 'sans-serif']
+      },
+      animation: {
+        'shake': 'shake 0.5s cubic-bezier(.36,.07,.19,.97) both',
+        'pop-in': 'popIn 0.3s cubic-bezier(0.175, 0.885, 0.32, 1.275) forwards',
+        'fade-in': 'fadeIn 0.5s ease-out forwards',
+        'fade-in-up': 'fadeInUp 0.5s ease-out forwards',
+        'merge-success': 'mergeSuccess 0.5s ease-out forwards',
+        'slide-out-left': 'slideOutLeft 0.3s ease-in forwards',
+        'slide-in-right': 'slideInRight 0.3s ease-out forwards',
+        'slide-out-right': 'slideOutRight 0.3s ease-in forwards',
+        'slide-in-left': 'slideInLeft 0.3s ease-out forwards',
+        'scale-in-tr': 'scaleInTR 0.3s cubic-bezier(0.16, 1, 0.3, 1) forwards',
+        'text-pop': 'textPop 0.4s cubic-bezier(0.16, 1, 0.3, 1) forwards',
+        'spring-in': 'springIn 0.5s cubic-bezier(0.175, 0.885, 0.32, 1.275) forwards',
+        'spring-out': 'springOut 0.4s cubic-bezier(0.6, -0.28, 0.735, 0.045) forwards',
+        'game-pop-in': 'gamePopIn 0.5s cubic-bezier(0.34, 1.56, 0.64, 1) forwards',
+        'expand-vertical': 'expandVertical 0.3s cubic-bezier(0.4, 0, 0.2, 1) forwards',
+        'collapse-vertical': 'collapseVertical 0.25s cubic-bezier(0.4, 0, 0.2, 1) forwards',
+        'expand-grid': 'expandGrid 0.3s cubic-bezier(0.4, 0, 0.2, 1) forwards',
+        'collapse-grid': 'collapseGrid 0.25s cubic-bezier(0.4, 0, 0.2, 1) forwards',
+        'slide-down-reveal': 'slideDownReveal 0.3s cubic-bezier(0.4, 0, 0.2, 1) forwards',
+        'slide-up-hide': 'slideUpHide 0.25s cubic-bezier(0.4, 0, 0.2, 1) forwards',
+        'bounce-restore': 'bounceRestore 0.4s cubic-bezier(0.175, 0.885, 0.32, 1.275) forwards',
+      },
+      keyframes: {
+        shake: {
+          '0%': { transform: 'scale(1.05)' },
+          '15%': { transform: 'scale(1.10)' },
+          '10%, 90%': { transform: 'translate3d(-1px, 0, 0) scale(1.05)' },
+          '20%, 80%': { transform: 'translate3d(2px, 0, 0) scale(1.05)' },
+          '30%, 50%, 70%': { transform: 'translate3d(-4px, 0, 0) scale(1.05)' },
+          '40%, 60%': { transform: 'translate3d(4px, 0, 0) scale(1.05)' },
+          '100%': { transform: 'scale(1)' }
+        },
+        popIn: {
+          '0%': { opacity: '0', transform: 'scale(0.5)' },
+          '100%': { opacity: '1', transform: 'scale(1)' }
+        },
+        fadeIn: {
+          '0%': { opacity: '0' },
+          '100%': { opacity: '1' }
+        },
+        fadeInUp: {
+          '0%': { opacity: '0', transform: 'translateY(20px)' },
+          '100%': { opacity: '1', transform: 'translateY(0)' }
+        },
+        mergeSuccess: {
+          '0%': { transform: 'scale(1.05)', opacity: '1', backgroundColor: '#e2b714', color: '#323437', borderColor: '#e2b714' },
+          '20%': { transform: 'scale(1.10)' },
+          '50%': { transform: 'scale(1.15)' },
+          /* Updated: Border color changed to monkey-sub (#646669) to blend with bg */
+          '100%': { transform: 'scale(1)', opacity: '0.2', backgroundColor: '#2c2e31', color: '#d1d0c5', borderColor: '#646669' }
+        },
+        slideOutLeft: {
+          '0%': { transform: 'translateX(0)', opacity: '1' },
+          '100%': { transform: 'translateX(-50%)', opacity: '0' }
+        },
+        slideInRight: {
+          '0%': { transform: 'translateX(50%)', opacity: '0' },
+          '100%': { transform: 'translateX(0)', opacity: '1' }
+        },
+        slideOutRight: {
+          '0%': { transform: 'translateX(0)', opacity: '1' },
+          '100%': { transform: 'translateX(50%)', opacity: '0' }
+        },
+        slideInLeft: {
+          '0%': { transform: 'translateX(-50%)', opacity: '0' },
+          '100%': { transform: 'translateX(0)', opacity: '1' }
+        },
+        scaleInTR: {
+          '0%': { opacity: '0', transform: 'scale(0)' },
+          '100%': { opacity: '1', transform: 'scale(1)' }
+        },
+        textPop: {
+          '0%': { opacity: '0', transform: 'translate(20px, -20px) scale(0.5)' },
+          '100%': { opacity: '1', transform: 'translate(0, 0) scale(1)' }
+        },
+        springIn: {
+          '0%': { opacity: '0', transform: 'scale(0)' },
+          '100%': { opacity: '1', transform: 'scale(1)' }
+        },
+        springOut: {
+          '0%': { opacity: '1', transform: 'scale(1)' },
+          '30%': { opacity: '1', transform: 'scale(1.05)' },
+          '100%': { opacity: '0', transform: 'scale(0)' }
+        },
+        gamePopIn: {
+          '0%': { opacity: '0', transform: 'scale(0.9) translateY(20px)' },
+          '100%': { opacity: '1', transform: 'scale(1) translateY(0)' }
+        },
+        expandVertical: {
+          '0%': { opacity: '0', maxHeight: '0' },
+          '100%': { opacity: '1', maxHeight: '80vh' }
+        },
+        collapseVertical: {
+          '0%': { opacity: '1', maxHeight: '80vh' },
+          '100%': { opacity: '0', maxHeight: '0' }
+        },
+        expandGrid: {
+          '0%': { gridTemplateRows: '0fr', opacity: '0', marginBottom: '0' },
+          '100%': { gridTemplateRows: '1fr', opacity: '1', marginBottom: '1rem' }
+        },
+        collapseGrid: {
+          '0%': { gridTemplateRows: '1fr', opacity: '1', marginBottom: '1rem' },
+          '100%': { gridTemplateRows: '0fr', opacity: '0', marginBottom: '0' }
+        },
+        slideDownReveal: {
+          '0%': { transform: 'translateY(-1rem)', opacity: '0' },
+          '100%': { transform: 'translateY(0)', opacity: '1' }
+        },
+        slideUpHide: {
+          '0%': { transform: 'translateY(0)', opacity: '1' },
+          '100%': { transform: 'translateY(-1rem)', opacity: '0' }
+        },
+        bounceRestore: {
+          '0%': { transform: 'scale(0.85)', opacity: '1' },
+          '80%': { transform: 'scale(1.05)' },
+          '100%': { transform: 'scale(1)', opacity: '1' }
+        }
+      }
+    }
+  }
+}
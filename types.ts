@@ -6,8 +6,39 @@ export interface SourceFile {
   enabled: boolean;
   dateAdded: number;
   wordCount: number;
+  profileId?: string; // Parsing profile used for document sources (re-applied on re-parse)
+  definitionScript?: DefinitionScript; // Language of the definitions; Chinese when absent
+  manual?: boolean; // "My words": words added by hand in the editor
 }
 
+// Writing system of the definitions in a source
+export type DefinitionScript = 'han' | 'kana' | 'hangul' | 'cyrillic' | 'latin';
+
+// Rules for turning extracted document text into word / definition pairs
+export interface ParsingProfile {
+  id: string;
+  name: string;
+  builtIn?: boolean;
+  linePattern?: string; // Regex source; group 1 = word, group 2 = definition
+  delimiter?: string; // Used instead of linePattern: split each line on this string
+  requireScript: boolean; // Definition must contain characters of the source's definition script
+  stopWords: string[];
+  skipToLastMarker: boolean; // Drop text before the last "List / Unit / Vocabulary" header
+  streamFallback: boolean; // Loose whole-text parsing when fewer than 5 lines match
+}
+
+// Spaced-repetition state (SM-2). Intervals are in days, timestamps in ms.
+export interface SchedulingState {
+  due: number;
+  interval: number;
+  ease: number;
+  reps: number; // Consecutive successful reviews
+  lapses: number;
+  lastReviewed?: number;
+}
+
+export type ReviewRating = 'again' | 'hard' | 'good' | 'easy';
+
 export interface VocabularyItem {
   id: string;
   sourceId?: string; // Links word to a specific source file
@@ -15,8 +46,20 @@ export interface VocabularyItem {
   definition: string;
   matched?: boolean;
   marked?: boolean;
-  level: number; // 0, 1, 2, 3
+  level: number; // 0, 1, 2, 3 (derived from srs when present)
   originalIndex: number; // To restore order
+  srs?: SchedulingState;
+  tags?: string[];
+  phonetic?: string; // IPA as written in the source, e.g. "/əˈbændən/"
+  senses?: DefinitionSense[]; // Structured form of `definition`
+  examples?: string[]; // Example sentences from the source, with their translation when printed
+  linkId?: string; // Items sharing a linkId (same word in several sources) share one level and schedule
+}
+
+// One meaning of a word, with the part-of-speech label it was listed under
+export interface DefinitionSense {
+  pos?: string; // As written: "n.", "vt.", "adj./adv.", "N-COUNT"
+  text: string;
 }
 
 export interface Bubble {
@@ -33,7 +76,11 @@ export enum GameMode {
   FLASHCARD = 'FLASHCARD',
   QUIZ = 'QUIZ',
   MATCHING = 'MATCHING',
-  WORD_LIST = 'WORD_LIST'
+  WORD_LIST = 'WORD_LIST',
+  REVIEW = 'REVIEW',
+  STATS = 'STATS',
+  TYPING = 'TYPING',
+  CLOZE = 'CLOZE'
 }
 
 export interface GameState {
@@ -41,10 +88,33 @@ export interface GameState {
   mode: GameMode;
 }
 
+// Which side is the prompt: word→definition (recognition), definition→word (production) or mixed per card
+export type StudyDirection = 'word-def' | 'def-word' | 'mixed';
+
+// How confusable the quiz's wrong options are: random, plausible, or the closest matches
+export type DistractorDifficulty = 'easy' | 'normal' | 'hard';
+
 export interface GameProgress {
-  flashcard?: { index: number; activeLevels?: number[] };
-  quiz?: { currentIndex: number; score: number; answeredState: Record<number, number | null>; activeLevels?: number[] };
+  flashcard?: { index: number; activeLevels?: number[]; direction?: StudyDirection };
+  quiz?: { currentIndex: number; score: number; answeredState: Record<number, number | null>; activeLevels?: number[]; direction?: StudyDirection; difficulty?: DistractorDifficulty };
   matching?: { round: number; bubbles?: Bubble[]; activeLevels?: number[] };
+  typing?: { index: number; activeLevels?: number[] };
+  cloze?: { index: number; activeLevels?: number[]; useChoices?: boolean };
+}
+
+// One graded answer. Answers only ever add entries; deleting a word drops its entries and
+// merging duplicates points them at the surviving word.
+export interface ReviewLogEntry {
+  id: string;
+  wordId: string;
+  mode: GameMode;
+  timestamp: number;
+  correct: boolean;
+  responseMs: number; // Time from question shown to answer
+  levelBefore: number;
+  levelAfter: number;
+  rating?: ReviewRating; // Only for scheduler reviews
+  confusedWithId?: string; // Wrong answers: the word the user picked instead
 }
 
 export interface ForgeSaveData {
@@ -53,4 +123,6 @@ export interface ForgeSaveData {
   vocab: VocabularyItem[];
   sources: SourceFile[]; // Persist source configurations
   progress: GameProgress;
+  history?: ReviewLogEntry[]; // Optional for saves written before the review log existed
+  profiles?: ParsingProfile[]; // User-defined parsing profiles
 }
\ No newline at end of file
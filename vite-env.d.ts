@@ -0,0 +1,11 @@
+/// <reference types="vite/client" />
+/// <reference types="vite-plugin-pwa/react" />
+
+// pdf.js worker code, imported by the parser worker so pdf.js runs in-process there
+declare module 'pdfjs-dist/build/pdf.worker.js' {
+  const pdfjsWorker: { WorkerMessageHandler: unknown };
+  export default pdfjsWorker;
+}
+
+// Where pdf.js looks for its worker code before spawning a worker of its own
+declare var pdfjsWorker: unknown;
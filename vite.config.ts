@@ -1,7 +1,53 @@
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
+import { viteStaticCopy } from 'vite-plugin-static-copy'
+import { VitePWA } from 'vite-plugin-pwa'
 
 // https://vitejs.dev/config/
 export default defineConfig({
-  plugins: [react()],
-})
\ No newline at end of file
+  plugins: [
+    react(),
+    // OCR engine and language data are served from /ocr/ so scans are recognised without a network
+    viteStaticCopy({
+      targets: [
+        { src: 'node_modules/tesseract.js/dist/worker.min.js', dest: 'ocr' },
+        { src: 'node_modules/tesseract.js-core/tesseract-core*-lstm.wasm.js', dest: 'ocr/core' },
+        { src: 'node_modules/@tesseract.js-data/eng/4.0.0_best_int/eng.traineddata.gz', dest: 'ocr/lang' },
+        { src: 'node_modules/@tesseract.js-data/chi_sim/4.0.0_best_int/chi_sim.traineddata.gz', dest: 'ocr/lang' },
+      ],
+    }),
+    // Installable app: the shell and parser libraries are precached, updates wait for the user
+    VitePWA({
+      registerType: 'prompt',
+      includeAssets: ['favicon.svg'],
+      manifest: {
+        name: '词炼 - 极致背词',
+        short_name: '词炼',
+        description: 'Vocabulary drills from your own word lists',
+        lang: 'zh-CN',
+        start_url: '.',
+        display: 'standalone',
+        background_color: '#323437',
+        theme_color: '#323437',
+        icons: [{ src: 'favicon.svg', sizes: 'any', type: 'image/svg+xml', purpose: 'any' }],
+      },
+      workbox: {
+        globPatterns: ['**/*.{js,css,html,svg,wasm,woff2}'],
+        // The OCR engine is large and only needed for scans: cached on first use instead
+        globIgnores: ['ocr/**'],
+        maximumFileSizeToCacheInBytes: 4 * 1024 * 1024,
+        runtimeCaching: [
+          {
+            urlPattern: ({ url }) => url.pathname.includes('/ocr/'),
+            handler: 'CacheFirst',
+            options: { cacheName: 'ocr-engine' },
+          },
+        ],
+      },
+    }),
+  ],
+  // The parser worker is a module worker and shares the OCR code, which is split into its own chunk
+  worker: {
+    format: 'es',
+  },
+})